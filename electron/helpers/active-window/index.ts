@@ -0,0 +1,42 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import type { WindowInfo } from "../../utils/types";
+import { getActiveX11Window, isX11Available } from "./linux-x11";
+
+export function isActiveWindowSupported() {
+  return isX11Available();
+}
+
+async function getProcessExecutable(pid: number) {
+  try {
+    return await fs.readlink(`/proc/${pid}/exe`);
+  } catch (_error) {
+    return null;
+  }
+}
+
+/**
+ * Get the focused window in the same shape as the window watcher produced, or
+ * null when no window has focus or focus can't be determined on this system.
+ */
+export async function getActiveWindow(): Promise<WindowInfo | null> {
+  if (!isX11Available()) {
+    return null;
+  }
+
+  const window = await getActiveX11Window();
+  if (!window || window.processId === null) {
+    return null;
+  }
+
+  const exe = await getProcessExecutable(window.processId);
+  return {
+    title: window.title,
+    info: {
+      name: exe ? path.basename(exe) : "",
+      path: exe ?? "",
+      processId: window.processId,
+    },
+  };
+}
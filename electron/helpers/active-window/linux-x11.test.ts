@@ -0,0 +1,185 @@
+import { execFileSync, spawn } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+import type { ChildProcess } from "node:child_process";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+import {
+  getActiveX11Window,
+  isX11Available,
+  parseActiveWindowId,
+  parseWindowProperties,
+} from "./linux-x11";
+
+vi.mock("electron", () => ({
+  app: { getPath: () => "/home/user" },
+}));
+
+function hasCommand(name: string) {
+  return (process.env.PATH ?? "")
+    .split(path.delimiter)
+    .some(
+      (directory) => directory && fs.existsSync(path.join(directory, name)),
+    );
+}
+
+describe("parseActiveWindowId", () => {
+  it.each([
+    ["_NET_ACTIVE_WINDOW: window id # 0x3a00007", 0x3a00007],
+    ["_NET_ACTIVE_WINDOW(WINDOW): window id # 0x1E00003", 0x1e00003],
+    ["_NET_ACTIVE_WINDOW: window id # 0x0", null],
+    ["_NET_ACTIVE_WINDOW:  not found.", null],
+    ["", null],
+    ["garbage # 0xzz", null],
+  ])("%j is %s", (output, expected) => {
+    expect(parseActiveWindowId(output)).toBe(expected);
+  });
+});
+
+describe("parseWindowProperties", () => {
+  it("reads the pid and the EWMH title", () => {
+    const output = [
+      "_NET_WM_PID = 4242",
+      '_NET_WM_NAME = "main.rs — \\"app\\" — Code"',
+      'WM_NAME = "main.rs - Code"',
+    ].join("\n");
+
+    expect(parseWindowProperties(output)).toEqual({
+      title: 'main.rs — "app" — Code',
+      processId: 4242,
+    });
+  });
+
+  it("falls back to WM_NAME, with types in the property names", () => {
+    const output = [
+      "_NET_WM_PID(CARDINAL) = 17",
+      "_NET_WM_NAME:  not found.",
+      'WM_NAME(STRING) = "xterm"',
+    ].join("\n");
+
+    expect(parseWindowProperties(output)).toEqual({
+      title: "xterm",
+      processId: 17,
+    });
+  });
+
+  it("reports no pid when the window doesn't set one", () => {
+    const output = ["_NET_WM_PID:  not found.", 'WM_NAME = "Untitled"'].join(
+      "\n",
+    );
+
+    expect(parseWindowProperties(output)).toEqual({
+      title: "Untitled",
+      processId: null,
+    });
+  });
+
+  it("skips malformed lines", () => {
+    const output = [
+      "xprop: error: BadWindow",
+      "= 12",
+      "_NET_WM_PID = not-a-number",
+      "_NET_WM_NAME =",
+      '\tWM_NAME = "indented"',
+    ].join("\n");
+
+    expect(parseWindowProperties(output)).toEqual({
+      title: "",
+      processId: null,
+    });
+  });
+});
+
+describe.runIf(process.platform === "linux")("isX11Available", () => {
+  it.each<[string, Partial<NodeJS.ProcessEnv>, boolean]>([
+    ["an X11 session", { DISPLAY: ":0", XDG_SESSION_TYPE: "x11" }, true],
+    ["a DISPLAY without a session type", { DISPLAY: ":99" }, true],
+    ["no DISPLAY", { XDG_SESSION_TYPE: "x11" }, false],
+    ["an empty DISPLAY", { DISPLAY: "" }, false],
+    ["Wayland without XWayland", { XDG_SESSION_TYPE: "wayland" }, false],
+    [
+      "Wayland with XWayland",
+      {
+        DISPLAY: ":0",
+        XDG_SESSION_TYPE: "wayland",
+        WAYLAND_DISPLAY: "wayland-0",
+      },
+      false,
+    ],
+    [
+      "a Wayland compositor without a session type",
+      { DISPLAY: ":0", WAYLAND_DISPLAY: "wayland-0" },
+      false,
+    ],
+  ])("%s is %s", (_name, env, expected) => {
+    expect(isX11Available(env)).toBe(expected);
+  });
+});
+
+describe.runIf(
+  process.platform === "linux" &&
+    hasCommand("Xvfb") &&
+    hasCommand("xprop") &&
+    hasCommand("xwininfo"),
+)("getActiveX11Window against Xvfb", () => {
+  const display = ":97";
+  const env = { ...process.env, DISPLAY: display };
+  let xvfb: ChildProcess;
+  let previousDisplay: string | undefined;
+
+  const xprop = (...args: string[]) =>
+    execFileSync("xprop", ["-display", display, ...args], { env });
+
+  beforeAll(async () => {
+    xvfb = spawn("Xvfb", [display, "-nolisten", "tcp"], { stdio: "ignore" });
+    // Wait for the server to accept connections
+    for (let attempt = 0; attempt < 50; attempt++) {
+      try {
+        execFileSync("xwininfo", ["-display", display, "-root"], {
+          stdio: "ignore",
+        });
+        break;
+      } catch (_error) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+    }
+    previousDisplay = process.env.DISPLAY;
+    process.env.DISPLAY = display;
+  });
+
+  afterAll(() => {
+    xvfb?.kill();
+    if (previousDisplay === undefined) {
+      delete process.env.DISPLAY;
+    } else {
+      process.env.DISPLAY = previousDisplay;
+    }
+  });
+
+  it("reports no window without a window manager", async () => {
+    expect(await getActiveX11Window()).toBeNull();
+  });
+
+  it("parses the properties xprop reports for a window", () => {
+    const rootId = execFileSync("xwininfo", ["-display", display, "-root"], {
+      env,
+      encoding: "utf-8",
+    }).match(/Window id: (0x[0-9a-f]+)/i)![1];
+    // Set on the root window, which exists without a window manager
+    xprop("-root", "-f", "_NET_WM_PID", "32c", "-set", "_NET_WM_PID", "4242");
+    xprop("-root", "-f", "_NET_WM_NAME", "8u", "-set", "_NET_WM_NAME", "Tést");
+
+    const output = xprop(
+      "-id",
+      rootId,
+      "-notype",
+      "_NET_WM_PID",
+      "_NET_WM_NAME",
+      "WM_NAME",
+    ).toString();
+    expect(parseWindowProperties(output)).toEqual({
+      title: "Tést",
+      processId: 4242,
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { exec } from "../../utils";
+
+export interface X11Window {
+  id: number;
+  title: string;
+  processId: number | null;
+}
+
+/**
+ * Parse the output of `xprop -root -notype _NET_ACTIVE_WINDOW`, e.g.
+ * `_NET_ACTIVE_WINDOW: window id # 0x3a00007`. A window id of 0 means no
+ * window has focus.
+ */
+export function parseActiveWindowId(output: string) {
+  const match = output.match(/_NET_ACTIVE_WINDOW.*#\s*(0x[0-9a-f]+)/i);
+  if (!match) {
+    return null;
+  }
+  const id = parseInt(match[1], 16);
+  return id === 0 ? null : id;
+}
+
+function unescapeXpropString(value: string) {
+  return value.replace(/\\(.)/g, "$1");
+}
+
+/**
+ * Parse the output of `xprop -id <window> -notype _NET_WM_PID _NET_WM_NAME WM_NAME`.
+ * Properties the window doesn't set are reported as "not found" and skipped.
+ */
+export function parseWindowProperties(output: string) {
+  const properties: Record<string, string> = {};
+  for (const line of output.split("\n")) {
+    const match = line.match(/^(\w+)(?:\(\w+\))?\s*=\s*(.*)$/);
+    if (!match) {
+      continue;
+    }
+    const [, name, rawValue] = match;
+    const quoted = rawValue.match(/^"(.*)"$/);
+    properties[name] = quoted ? unescapeXpropString(quoted[1]) : rawValue;
+  }
+
+  const pid = parseInt(properties["_NET_WM_PID"]);
+  return {
+    title: properties["_NET_WM_NAME"] ?? properties["WM_NAME"] ?? "",
+    processId: isNaN(pid) ? null : pid,
+  };
+}
+
+/**
+ * Whether focus can be read from an X server. Wayland sessions are left out
+ * even when XWayland sets $DISPLAY, since native Wayland windows never show
+ * up as focused there.
+ */
+export function isX11Available(env: Partial<NodeJS.ProcessEnv> = process.env) {
+  return (
+    process.platform === "linux" &&
+    !!env.DISPLAY &&
+    env.XDG_SESSION_TYPE !== "wayland" &&
+    !env.WAYLAND_DISPLAY
+  );
+}
+
+/**
+ * Get the focused top-level window from the X server named by $DISPLAY, using
+ * the EWMH properties set by the window manager.
+ */
+export async function getActiveX11Window(): Promise<X11Window | null> {
+  const [rootOutput, rootError] = await exec(
+    "xprop",
+    "-root",
+    "-notype",
+    "_NET_ACTIVE_WINDOW",
+  );
+  if (rootError) {
+    throw new Error(`Failed to read _NET_ACTIVE_WINDOW: ${rootError}`);
+  }
+  const id = parseActiveWindowId(rootOutput);
+  if (id === null) {
+    return null;
+  }
+
+  const [windowOutput, windowError] = await exec(
+    "xprop",
+    "-id",
+    `0x${id.toString(16)}`,
+    "-notype",
+    "_NET_WM_PID",
+    "_NET_WM_NAME",
+    "WM_NAME",
+  );
+  if (windowError) {
+    // The window may have closed between the two calls
+    return null;
+  }
+
+  return { id, ...parseWindowProperties(windowOutput) };
+}
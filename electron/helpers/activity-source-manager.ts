@@ -0,0 +1,131 @@
+import type { ActivitySourceType } from "../utils/constants";
+import type { ActivitySource } from "../watchers/activity-source";
+import type { Wakatime } from "../watchers/wakatime";
+import { Logging, LogLevel } from "../utils/logging";
+import { FocusedWindowWatcher } from "../watchers/focused-window-watcher";
+import { ProcessWatcher } from "../watchers/process-watcher";
+import { isActiveWindowSupported } from "./active-window";
+import { IdleMonitor } from "./idle-monitor";
+import { PropertiesManager } from "./properties-manager";
+
+interface ActivitySourceDefinition {
+  label: string;
+  description: string;
+  isSupported: () => boolean;
+  create: () => ActivitySource;
+}
+
+// To add a source, implement ActivitySource and register it here.
+const activitySources: Record<ActivitySourceType, ActivitySourceDefinition> = {
+  focused_window: {
+    label: "Focused window",
+    description: "Track the enrolled program whose window has focus.",
+    isSupported: isActiveWindowSupported,
+    create: () => new FocusedWindowWatcher(),
+  },
+  process: {
+    label: "All running programs",
+    description: "Track every enrolled program that is running.",
+    isSupported: () => true,
+    create: () => new ProcessWatcher(),
+  },
+};
+
+export class ActivitySourceManager {
+  private wakatime: Wakatime;
+  private source: ActivitySource | null = null;
+  private sourceType: ActivitySourceType | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(wakatime: Wakatime) {
+    this.wakatime = wakatime;
+
+    IdleMonitor.instance().start();
+    IdleMonitor.instance().onResume(() => {
+      Logging.instance().log("User returned, resetting heartbeat state");
+      this.wakatime.resetHeartbeatState();
+    });
+  }
+
+  static getAvailableSources() {
+    return Object.entries(activitySources).map(([id, definition]) => ({
+      id: id as ActivitySourceType,
+      label: definition.label,
+      description: definition.description,
+      isSupported: definition.isSupported(),
+    }));
+  }
+
+  /**
+   * The source chosen in Settings, or the first supported source when none
+   * was chosen or the chosen one isn't supported on this system
+   */
+  static get selectedSourceType(): ActivitySourceType {
+    const selected = PropertiesManager.activitySource;
+    if (selected && activitySources[selected].isSupported()) {
+      return selected;
+    }
+    const fallback = this.getAvailableSources().find(
+      (source) => source.isSupported,
+    );
+    return fallback?.id ?? "process";
+  }
+
+  start() {
+    this.stop();
+
+    const sourceType = ActivitySourceManager.selectedSourceType;
+    const source = activitySources[sourceType].create();
+    this.unsubscribe = source.onActivity((activity) => {
+      if (IdleMonitor.instance().isIdle()) {
+        Logging.instance().log(
+          `Skipping heartbeat for ${activity.windowInfo.info.name} while idle`,
+        );
+        return;
+      }
+      return this.wakatime.sendHeartbeat(activity);
+    });
+    this.source = source;
+    this.sourceType = sourceType;
+
+    Logging.instance().log(
+      `Starting activity source: ${activitySources[sourceType].label}`,
+      LogLevel.INFO,
+    );
+    source.start();
+  }
+
+  stop() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.source?.stop();
+    this.source = null;
+    this.sourceType = null;
+  }
+
+  /**
+   * Switch to the selected source if it changed while running
+   */
+  refreshSource() {
+    if (
+      this.source &&
+      this.sourceType !== ActivitySourceManager.selectedSourceType
+    ) {
+      this.start();
+    }
+  }
+
+  getSource() {
+    return this.source;
+  }
+
+  /**
+   * Enrolled programs seen running by the current source, if it polls processes
+   */
+  getCurrentlyRunningPrograms() {
+    if (this.source instanceof ProcessWatcher) {
+      return this.source.getCurrentlyRunningPrograms();
+    }
+    return [];
+  }
+}
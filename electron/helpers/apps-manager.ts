@@ -5,6 +5,7 @@ import { appDataSchema } from "../utils/validators";
 import { excludeAppsList } from "../watchers/apps";
 import fs from "node:fs";
 import { getApps } from "./installed-apps";
+import { Migrations, VersionedFile } from "./versioned-file";
 import { getWakatimeAppDataFolderPath } from "../utils";
 import path from "node:path";
 import { z } from "zod";
@@ -14,6 +15,13 @@ const wakatimeAppsSchema = z.object({
   extraApps: z.array(appDataSchema),
 });
 
+const WAKATIME_APPS_VERSION = 2;
+
+const wakatimeAppsMigrations: Migrations = {
+  // Version 1 was stored without an envelope
+  1: (data) => data,
+};
+
 const validateExtraApps = (apps: AppData[]) => {
   return apps.filter((app) => {
     return fs.existsSync(app.path);
@@ -21,16 +29,20 @@ const validateExtraApps = (apps: AppData[]) => {
 };
 
 export class AppsManager {
-  cacheFilePath: string;
+  cacheFile: VersionedFile<z.infer<typeof wakatimeAppsSchema>>;
   installedApps: AppData[] = [];
   extraApps: AppData[] = [];
 
   static _instacneCache?: AppsManager;
 
   constructor() {
-    this.cacheFilePath = path.join(
-      getWakatimeAppDataFolderPath(),
-      "wakatime-apps.json",
+    this.cacheFile = new VersionedFile(
+      path.join(getWakatimeAppDataFolderPath(), "wakatime-apps.json"),
+      {
+        version: WAKATIME_APPS_VERSION,
+        schema: wakatimeAppsSchema,
+        migrations: wakatimeAppsMigrations,
+      },
     );
   }
 
@@ -42,22 +54,15 @@ export class AppsManager {
   }
 
   private getCachedApps(): z.infer<typeof wakatimeAppsSchema> {
-    try {
-      const data = fs.readFileSync(this.cacheFilePath, { encoding: "utf-8" });
-      const apps = wakatimeAppsSchema.parse(JSON.parse(data));
-      return apps;
-    } catch (_error) {
-      /* empty */
-    }
-    return { installedApps: [], extraApps: [] };
+    return this.cacheFile.load() ?? { installedApps: [], extraApps: [] };
   }
 
   private setCachedApps(data: z.infer<typeof wakatimeAppsSchema>) {
     try {
-      fs.writeFileSync(this.cacheFilePath, JSON.stringify(data));
+      this.cacheFile.save(data);
     } catch (error) {
       Logging.instance().log(
-        `Failed to log to file: ${this.cacheFilePath}. Error: ${error}`,
+        `Failed to log to file: ${this.cacheFile.filePath}. Error: ${error}`,
         LogLevel.ERROR,
       );
     }
@@ -87,6 +92,27 @@ export class AppsManager {
     return this.getAllApps().find((app) => app.path === path);
   }
 
+  /**
+   * Icon of the installed app that runs one of the given executables. Paths
+   * are also compared after resolving symlinks, since a program is often
+   * enrolled through a launcher link.
+   */
+  getAppIcon(executablePaths: string[]) {
+    for (const executablePath of executablePaths) {
+      let realPath = executablePath;
+      try {
+        realPath = fs.realpathSync(executablePath);
+      } catch (_error) {
+        /* empty */
+      }
+      const app = this.getApp(executablePath) ?? this.getApp(realPath);
+      if (app?.icon) {
+        return app.icon;
+      }
+    }
+    return null;
+  }
+
   getAllApps() {
     return [...this.installedApps, ...this.extraApps];
   }
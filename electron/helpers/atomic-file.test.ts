@@ -0,0 +1,134 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { readFileWithRecovery, writeFileAtomic } from "./atomic-file";
+
+vi.mock("../utils/logging", () => ({
+  Logging: { instance: () => ({ log: () => {} }) },
+  LogLevel: { DEBUG: 0, INFO: 1, WARN: 2, ERROR: 3 },
+}));
+
+const mode = (file: string) => fs.statSync(file).mode & 0o777;
+const read = (file: string) => fs.readFileSync(file, "utf-8");
+
+describe("writeFileAtomic", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "atomic-file-"));
+    file = path.join(dir, ".wakatime.cfg");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("creates a missing file", () => {
+    writeFileAtomic(file, "new");
+
+    expect(read(file)).toBe("new");
+    expect(fs.readdirSync(dir)).toEqual([".wakatime.cfg"]);
+  });
+
+  it("keeps the previous contents as a backup", () => {
+    fs.writeFileSync(file, "old");
+    writeFileAtomic(file, "new");
+
+    expect(read(file)).toBe("new");
+    expect(read(`${file}.bak`)).toBe("old");
+    expect(fs.existsSync(`${file}.tmp`)).toBe(false);
+  });
+
+  it.runIf(process.platform !== "win32")(
+    "keeps the mode of the file and gives the backup the same mode",
+    () => {
+      fs.writeFileSync(file, "old", { mode: 0o600 });
+      fs.writeFileSync(`${file}.bak`, "older", { mode: 0o644 });
+      writeFileAtomic(file, "new");
+
+      expect(mode(file)).toBe(0o600);
+      expect(mode(`${file}.bak`)).toBe(0o600);
+    },
+  );
+
+  it.runIf(process.platform !== "win32")(
+    "writes through a symlink instead of replacing it",
+    () => {
+      const target = path.join(dir, "dotfiles", "wakatime.cfg");
+      fs.mkdirSync(path.dirname(target));
+      fs.writeFileSync(target, "old", { mode: 0o600 });
+      fs.symlinkSync(target, file);
+      writeFileAtomic(file, "new");
+
+      expect(fs.lstatSync(file).isSymbolicLink()).toBe(true);
+      expect(read(target)).toBe("new");
+      expect(mode(target)).toBe(0o600);
+      expect(read(`${target}.bak`)).toBe("old");
+      expect(fs.existsSync(`${file}.bak`)).toBe(false);
+    },
+  );
+
+  it("removes the temporary file when the write fails", () => {
+    fs.writeFileSync(file, "old");
+    // Renaming a file over a non-empty directory fails
+    const directory = path.join(dir, "directory");
+    fs.mkdirSync(path.join(directory, "child"), { recursive: true });
+    expect(() => writeFileAtomic(directory, "new")).toThrow();
+
+    expect(fs.existsSync(`${directory}.tmp`)).toBe(false);
+  });
+});
+
+describe("readFileWithRecovery", () => {
+  let dir: string;
+  let file: string;
+
+  const parse = (contents: string) => {
+    if (!contents) {
+      throw new Error("File is empty");
+    }
+    return contents;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "atomic-file-"));
+    file = path.join(dir, "data.json");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("returns null for a missing file", () => {
+    expect(readFileWithRecovery(file, parse)).toBeNull();
+  });
+
+  it("falls back to the backup when the file can't be parsed", () => {
+    writeFileAtomic(file, "good");
+    writeFileAtomic(file, "newer");
+    fs.writeFileSync(file, "");
+
+    expect(readFileWithRecovery(file, parse)).toBe("good");
+  });
+
+  it.runIf(process.platform !== "win32")(
+    "finds the backup of a symlinked file next to its target",
+    () => {
+      const target = path.join(dir, "target.json");
+      fs.symlinkSync(target, file);
+      writeFileAtomic(file, "good");
+      writeFileAtomic(file, "newer");
+      fs.writeFileSync(target, "");
+
+      expect(readFileWithRecovery(file, parse)).toBe("good");
+    },
+  );
+
+  it("throws when neither copy can be parsed", () => {
+    fs.writeFileSync(file, "");
+    expect(() => readFileWithRecovery(file, parse)).toThrow("File is empty");
+  });
+});
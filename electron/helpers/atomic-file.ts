@@ -0,0 +1,131 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import { Logging, LogLevel } from "../utils/logging";
+
+// The previous contents of a file are kept here, to recover from a file that
+// was corrupted outside of our writes
+function backupPath(file: string) {
+  return `${file}.bak`;
+}
+
+function fsyncDirectory(directory: string) {
+  let fd: number | null = null;
+  try {
+    fd = fs.openSync(directory, "r");
+    fs.fsyncSync(fd);
+  } catch (_error) {
+    // Directories can't be opened for syncing on Windows
+  } finally {
+    if (fd !== null) {
+      fs.closeSync(fd);
+    }
+  }
+}
+
+// Write through symlinks, so a linked file stays linked and its target is
+// what gets replaced
+function resolveFile(file: string) {
+  try {
+    return fs.realpathSync(file);
+  } catch (_error) {
+    // Missing, or a dangling symlink to the file that is about to be created
+  }
+  try {
+    return path.resolve(path.dirname(file), fs.readlinkSync(file));
+  } catch (_error) {
+    return file;
+  }
+}
+
+function statIfExists(file: string) {
+  try {
+    return fs.statSync(file);
+  } catch (_error) {
+    return null;
+  }
+}
+
+// Files like the wakatime cfg hold the API key, so copies of them must keep
+// the original's permissions and owner
+function copyOwnership(file: string, stats: fs.Stats) {
+  fs.chmodSync(file, stats.mode & 0o7777);
+  try {
+    fs.chownSync(file, stats.uid, stats.gid);
+  } catch (_error) {
+    // Only root can give a file away, and the owner is us otherwise anyway
+  }
+}
+
+/**
+ * Replace a file without ever leaving it half written: the contents go to a
+ * temporary file that is flushed to disk and then renamed over the original.
+ * The replacement keeps the original's mode and owner, and the original is
+ * kept as a backup for `readFileWithRecovery`.
+ */
+export function writeFileAtomic(file: string, contents: string) {
+  const target = resolveFile(file);
+  const existing = statIfExists(target);
+  const tempFile = `${target}.tmp`;
+
+  try {
+    // Copies left by a crash may have looser permissions
+    fs.rmSync(tempFile, { force: true });
+    const fd = fs.openSync(
+      tempFile,
+      "wx",
+      existing ? existing.mode & 0o7777 : 0o666,
+    );
+    try {
+      fs.writeFileSync(fd, contents, { encoding: "utf-8" });
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    if (existing) {
+      copyOwnership(tempFile, existing);
+      const backup = backupPath(target);
+      fs.rmSync(backup, { force: true });
+      fs.copyFileSync(target, backup);
+      copyOwnership(backup, existing);
+    }
+    fs.renameSync(tempFile, target);
+  } catch (error) {
+    fs.rmSync(tempFile, { force: true });
+    throw error;
+  }
+  fsyncDirectory(path.dirname(target));
+}
+
+/**
+ * Read and parse a file, falling back to the backup kept by
+ * `writeFileAtomic` when the file can't be parsed. Returns null when the file
+ * doesn't exist, and throws when neither copy can be parsed.
+ */
+export function readFileWithRecovery<T>(
+  file: string,
+  parse: (contents: string) => T,
+): T | null {
+  if (!fs.existsSync(file)) {
+    return null;
+  }
+
+  try {
+    return parse(fs.readFileSync(file, { encoding: "utf-8" }));
+  } catch (error) {
+    const backup = backupPath(resolveFile(file));
+    if (!fs.existsSync(backup)) {
+      throw error;
+    }
+
+    Logging.instance().log(
+      `Failed to read ${file}, recovering from ${backup}: ${error}`,
+      LogLevel.WARN,
+    );
+    try {
+      return parse(fs.readFileSync(backup, { encoding: "utf-8" }));
+    } catch (_backupError) {
+      throw error;
+    }
+  }
+}
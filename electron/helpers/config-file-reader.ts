@@ -1,13 +1,12 @@
-import fs from "node:fs";
-
 import { Logging, LogLevel } from "../utils/logging";
+import { readFileWithRecovery, writeFileAtomic } from "./atomic-file";
 
 export abstract class ConfigFileReader {
   static get(file: string, section: string, key: string) {
     let contents = "";
 
     try {
-      contents = fs.readFileSync(file, { encoding: "utf-8" });
+      contents = this.read(file);
     } catch (error) {
       Logging.instance().log(
         `Failed to read file: ${file}. Error: ${error}`,
@@ -36,11 +35,11 @@ export abstract class ConfigFileReader {
     let contents = "";
 
     try {
-      contents = fs.readFileSync(file, { encoding: "utf-8" });
+      contents = this.read(file);
     } catch (_error) {
       contents = "[" + section + "]\n" + key + " = " + value;
       try {
-        fs.writeFileSync(file, contents, { encoding: "utf-8" });
+        writeFileAtomic(file, contents);
       } catch (error) {
         throw new Error(`Failed writing to URL: ${file}, Error: ${error}`);
       }
@@ -101,12 +100,27 @@ export abstract class ConfigFileReader {
     });
 
     try {
-      fs.writeFileSync(file, output.join("\n"), { encoding: "utf-8" });
+      writeFileAtomic(file, output.join("\n"));
     } catch (error) {
       throw new Error(`Failed writing to URL: ${file}, Error: ${error}`);
     }
   }
 
+  // An empty file is what an interrupted write leaves behind, so fall back to
+  // the previous copy in that case
+  private static read(file: string) {
+    const contents = readFileWithRecovery(file, (contents) => {
+      if (!contents.trim()) {
+        throw new Error("File is empty");
+      }
+      return contents;
+    });
+    if (contents === null) {
+      throw new Error("File does not exist");
+    }
+    return contents;
+  }
+
   static setBool(file: string, section: string, key: string, value: boolean) {
     this.set(file, section, key, value ? "True" : "False");
   }
@@ -0,0 +1,125 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import type { AppData } from "../utils/validators";
+import type { RunningProcess } from "./process-monitor";
+import type { ProcessSnapshot } from "./process-snapshot";
+import type { ProgramPattern } from "./program-pattern";
+import { AppsManager } from "./apps-manager";
+import { EnrolledProgramsManager } from "./enrolled-programs-manager";
+import { ProcessMonitor } from "./process-monitor";
+import {
+  patternForExecutable,
+  patternForProcess,
+  patternKey,
+} from "./program-pattern";
+
+/**
+ * An app that can be picked for enrollment. Flatpak and Snap apps carry the
+ * pattern to enroll, since their launcher isn't what runs.
+ */
+export interface EnrollableApp {
+  name: string;
+  path: string;
+  icon: string | null;
+  pattern: ProgramPattern | null;
+}
+
+export interface EnrollableApps {
+  installed: EnrollableApp[];
+  running: EnrollableApp[];
+}
+
+// The executable a process runs, where the platform tells us
+function getProcessExecutable(proc: RunningProcess) {
+  if (proc.exe) {
+    return proc.exe;
+  }
+  const executable = proc.command.split(" ")[0];
+  return path.isAbsolute(executable) && fs.existsSync(executable)
+    ? executable
+    : null;
+}
+
+/**
+ * Installed apps keyed by the path, or pattern key for Flatpak and Snap apps,
+ * their running programs are known by. Build it once and share it when
+ * looking up many programs.
+ */
+export function getInstalledAppIndex() {
+  const index = new Map<string, AppData>();
+  for (const app of AppsManager.instance().getAllApps()) {
+    const pattern = patternForExecutable(app.path);
+    index.set(pattern ? patternKey(pattern) : app.path, app);
+  }
+  return index;
+}
+
+/**
+ * The user's GUI apps in a process snapshot, one entry per executable or
+ * sandboxed app. Apps are told apart from system daemons, shells and helper
+ * processes by having a desktop entry or running as a Flatpak or Snap.
+ */
+export function getRunningApps(
+  snapshot: ProcessSnapshot,
+  installedApps = getInstalledAppIndex(),
+) {
+  const uid = process.getuid?.();
+  const running = new Map<string, EnrollableApp>();
+
+  for (const proc of snapshot.processes) {
+    // Only the user's own programs, not services and kernel threads
+    if (uid !== undefined && proc.uid !== undefined && proc.uid !== uid) {
+      continue;
+    }
+
+    const pattern = patternForProcess(proc);
+    const executable = getProcessExecutable(proc);
+    const key = pattern ? patternKey(pattern) : executable;
+    if (!key || key === process.execPath || running.has(key)) {
+      continue;
+    }
+
+    const app = installedApps.get(key);
+    if ((!app && !pattern) || (app && AppsManager.isExcludedApp(app))) {
+      continue;
+    }
+    running.set(key, {
+      name: app?.name ?? pattern?.value ?? proc.name,
+      path: key,
+      icon: app?.icon ?? null,
+      pattern,
+    });
+  }
+  return Array.from(running.values());
+}
+
+/**
+ * List installed apps and running programs that aren't enrolled yet, for
+ * picking what to enroll
+ */
+export async function getEnrollableApps(): Promise<EnrollableApps> {
+  const enrolledManager = EnrolledProgramsManager.getInstance();
+  const isEnrolled = (app: EnrollableApp) =>
+    enrolledManager.isProgramEnrolled(
+      app.pattern ? patternKey(app.pattern) : app.path,
+    );
+
+  const installed = AppsManager.instance()
+    .getAllApps()
+    .map((app) => ({
+      name: app.name,
+      path: app.path,
+      icon: app.icon,
+      pattern: patternForExecutable(app.path),
+    }))
+    .filter((app) => !isEnrolled(app))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const snapshot = await ProcessMonitor.getInstance().takeSnapshot();
+  const running = getRunningApps(snapshot)
+    .filter((app) => !isEnrolled(app))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return { installed, running };
+}
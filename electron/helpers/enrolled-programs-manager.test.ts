@@ -0,0 +1,95 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { EnrolledProgramsManager } from "./enrolled-programs-manager";
+
+const { appDataDir } = vi.hoisted(() => ({ appDataDir: { path: "" } }));
+
+vi.mock("electron", () => ({
+  app: { getPath: () => appDataDir.path },
+}));
+
+vi.mock("../utils/logging", () => ({
+  Logging: { instance: () => ({ log: () => {} }) },
+  LogLevel: { DEBUG: 0, INFO: 1, WARN: 2, ERROR: 3 },
+}));
+
+const fixturesDir = path.join(__dirname, "__fixtures__", "enrolled-programs");
+
+describe("EnrolledProgramsManager", () => {
+  let dataFile: string;
+
+  const useFixture = (name: string) =>
+    fs.copyFileSync(path.join(fixturesDir, name), dataFile);
+  const readDataFile = () => JSON.parse(fs.readFileSync(dataFile, "utf-8"));
+
+  beforeEach(() => {
+    appDataDir.path = fs.mkdtempSync(path.join(os.tmpdir(), "enrolled-"));
+    dataFile = path.join(appDataDir.path, "WakaTime", "enrolled-programs.json");
+    fs.mkdirSync(path.dirname(dataFile));
+  });
+
+  afterEach(() => {
+    fs.rmSync(appDataDir.path, { recursive: true, force: true });
+  });
+
+  it("migrates version 1, marking every program available", () => {
+    useFixture("v1.json");
+    const manager = new EnrolledProgramsManager();
+
+    expect(manager.getAllPrograms()).toEqual([
+      {
+        id: "m0k1abc",
+        name: "sh",
+        path: "/bin/sh",
+        enrolledAt: "2025-01-06T09:30:00.000Z",
+        lastSeen: "2025-01-07T17:00:00.000Z",
+        status: "available",
+      },
+    ]);
+    expect(readDataFile()).toMatchObject({
+      version: 2,
+      data: { programs: [{ id: "m0k1abc", status: "available" }] },
+    });
+    expect(fs.existsSync(`${dataFile}.v1.bak`)).toBe(true);
+  });
+
+  it("loads version 2 with rules, settings and patterns", () => {
+    useFixture("v2.json");
+    const manager = new EnrolledProgramsManager();
+
+    expect(manager.getProgramById("m0k1abc")).toMatchObject({
+      matchRules: [{ interpreter: "python", argsPattern: "-m jupyter" }],
+      category: "debugging",
+    });
+    expect(manager.getProgramById("m0k2def")).toMatchObject({
+      pattern: { type: "glob", value: "/opt/code-*/code" },
+      status: "missing",
+    });
+  });
+
+  it("tracks a newer version read-only, without overwriting it", () => {
+    useFixture("v3.json");
+    const original = fs.readFileSync(dataFile, "utf-8");
+    const manager = new EnrolledProgramsManager();
+
+    expect(manager.getAllPrograms().map((program) => program.id)).toEqual([
+      "m0k1abc",
+    ]);
+    expect(manager.enrollProgram(process.execPath)).toBeNull();
+    expect(manager.removeProgram("m0k1abc")).toBe(false);
+    manager.updateLastSeen("/bin/sh");
+    manager.flush();
+
+    expect(fs.readFileSync(dataFile, "utf-8")).toBe(original);
+  });
+
+  it("starts empty without a file", () => {
+    const manager = new EnrolledProgramsManager();
+
+    expect(manager.getAllPrograms()).toEqual([]);
+    expect(readDataFile()).toEqual({ version: 2, data: { programs: [] } });
+  });
+});
@@ -1,8 +1,42 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import { z } from 'zod';
-import { getWakatimeAppDataFolderPath } from '../utils';
+import { getGlobError, getWakatimeAppDataFolderPath, isValidGlob } from '../utils';
+import { categories, Category, entityTypes, EntityType } from '../utils/types';
 import { Logging, LogLevel } from '../utils/logging';
+import { Migrations, VersionedFile } from './versioned-file';
+import { getResolvedProgramPattern, patternKey, ProgramPattern, resolveProgramPattern } from './program-pattern';
+
+/**
+ * How running processes are matched against an enrolled program.
+ * - exact: the process executable resolves to the same file as the enrolled path
+ * - fuzzy: the process name or command line resembles the enrolled path
+ */
+export type MatchMode = 'exact' | 'fuzzy';
+
+/**
+ * Extra conditions under which a process counts as an enrolled program, for
+ * tools that run under an interpreter or are launched through a wrapper. All
+ * conditions set on a rule must hold for it to match, and a program with rules
+ * is no longer matched by its executable path.
+ */
+export interface MatchRule {
+  // Interpreter executable name or path, e.g. `python` also matches `python3.12`
+  interpreter?: string;
+  // Regular expression tested against the arguments passed to the process
+  argsPattern?: string;
+  // Glob tested against the working directory of the process
+  cwdGlob?: string;
+  // Name of the parent process, or of the script it runs
+  parentName?: string;
+}
+
+/**
+ * Whether the enrolled path still exists. Missing programs keep their
+ * settings and history so they can be relinked, e.g. when a drive is
+ * unmounted or an upgrade moved the executable.
+ */
+export type ProgramStatus = 'available' | 'missing';
 
 export interface EnrolledProgram {
   id: string;
@@ -10,29 +44,132 @@ export interface EnrolledProgram {
   path: string;
   enrolledAt: string;
   lastSeen?: string;
+  status?: ProgramStatus;
+  matchMode?: MatchMode;
+  matchRules?: MatchRule[];
+  // Set for programs enrolled by pattern instead of by path. Their path holds
+  // the pattern key, and the pattern is resolved again on every scan.
+  pattern?: ProgramPattern;
+  // Overrides for what is sent in heartbeats for this program
+  displayName?: string;
+  category?: Category;
+  // Project reported instead of the one detected from the working directory
+  project?: string;
+  // Language reported when it can't be told from the file being worked on
+  language?: string;
+  entityType?: EntityType;
+  // Name of the program in the plugin string sent to WakaTime
+  pluginName?: string;
 }
 
+/**
+ * Per-program settings that can be changed after enrollment
+ */
+export type EnrolledProgramSettings = Partial<
+  Pick<
+    EnrolledProgram,
+    | 'matchMode'
+    | 'matchRules'
+    | 'displayName'
+    | 'category'
+    | 'project'
+    | 'language'
+    | 'entityType'
+    | 'pluginName'
+  >
+>;
+
+const isValidRegExp = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch (_error) {
+    return false;
+  }
+};
+
+const matchRuleSchema = z.object({
+  interpreter: z.string().optional(),
+  argsPattern: z.string().refine(isValidRegExp, 'Invalid regular expression').optional(),
+  cwdGlob: z.string().refine(isValidGlob, glob => ({ message: getGlobError(glob) ?? 'Invalid glob' })).optional(),
+  parentName: z.string().optional(),
+});
+
+export const programPatternSchema = z.object({
+  type: z.enum(['glob', 'execName', 'flatpak', 'snap']),
+  value: z.string().trim().min(1),
+});
+
 const enrolledProgramSchema = z.object({
   id: z.string(),
   name: z.string(),
   path: z.string(),
   enrolledAt: z.string(),
   lastSeen: z.string().optional(),
+  status: z.enum(['available', 'missing']).optional(),
+  matchMode: z.enum(['exact', 'fuzzy']).optional(),
+  matchRules: z.array(matchRuleSchema).optional(),
+  pattern: programPatternSchema.optional(),
+  displayName: z.string().optional(),
+  category: z.enum(categories).optional(),
+  project: z.string().optional(),
+  language: z.string().optional(),
+  entityType: z.enum(entityTypes).optional(),
+  pluginName: z.string().optional(),
 });
 
+export const enrolledProgramSettingsSchema = enrolledProgramSchema
+  .pick({
+    matchMode: true,
+    matchRules: true,
+    displayName: true,
+    category: true,
+    project: true,
+    language: true,
+    entityType: true,
+    pluginName: true,
+  })
+  .strict();
+
 const enrolledProgramsSchema = z.object({
   programs: z.array(enrolledProgramSchema),
 });
 
+const ENROLLED_PROGRAMS_VERSION = 2;
+
+// How long frequently changing fields like lastSeen wait before being written
+const SAVE_DELAY_MS = 5 * 60 * 1000;
+
+const enrolledProgramsMigrations: Migrations = {
+  // Version 1 was stored without an envelope, and dropped programs whose path
+  // was missing instead of marking them
+  1: (data) => {
+    const { programs } = z
+      .object({ programs: z.array(z.object({}).passthrough()) })
+      .parse(data);
+    return {
+      programs: programs.map(program => ({ ...program, status: 'available' })),
+    };
+  },
+};
+
 export class EnrolledProgramsManager {
   private static instance: EnrolledProgramsManager;
-  private dataFilePath: string;
+  private dataFile: VersionedFile<z.infer<typeof enrolledProgramsSchema>>;
   private programs: EnrolledProgram[] = [];
+  private saveTimeout: NodeJS.Timeout | null = null;
+  // Set when the file was saved by a newer version, which is then left as is
+  private readOnly = false;
 
   constructor() {
-    this.dataFilePath = path.join(
-      getWakatimeAppDataFolderPath(),
-      'enrolled-programs.json'
+    this.dataFile = new VersionedFile(
+      path.join(getWakatimeAppDataFolderPath(), 'enrolled-programs.json'),
+      {
+        version: ENROLLED_PROGRAMS_VERSION,
+        schema: enrolledProgramsSchema,
+        migrations: enrolledProgramsMigrations,
+        indent: 2,
+      }
     );
     this.loadPrograms();
   }
@@ -48,43 +185,63 @@ export class EnrolledProgramsManager {
    * Load enrolled programs from persistent storage
    */
   private loadPrograms(): void {
-    try {
-      if (!fs.existsSync(this.dataFilePath)) {
-        // Create the directory if it doesn't exist
-        const dir = path.dirname(this.dataFilePath);
-        if (!fs.existsSync(dir)) {
-          fs.mkdirSync(dir, { recursive: true });
+    // Create the directory if it doesn't exist
+    const dir = path.dirname(this.dataFile.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const result = this.dataFile.read();
+    if (result.status === 'newer') {
+      // Track what this version understands, without changing the file
+      this.readOnly = true;
+      this.programs = result.data?.programs ?? [];
+      this.refreshStatus();
+      return;
+    }
+    if (result.status !== 'loaded') {
+      this.programs = [];
+      this.savePrograms();
+      return;
+    }
+
+    this.programs = result.data.programs;
+    this.refreshStatus();
+  }
+
+  /**
+   * Mark programs whose path no longer exists as missing, and ones whose path
+   * came back as available again. Patterns are checked against what they last
+   * resolved to, and ones not resolved yet are checked once they are.
+   */
+  refreshStatus(): void {
+    let changed = false;
+    for (const program of this.programs) {
+      let exists: boolean;
+      if (program.pattern) {
+        const executables = getResolvedProgramPattern(program.pattern);
+        if (!executables) {
+          void resolveProgramPattern(program.pattern).then(() => this.refreshStatus());
+          continue;
         }
-        this.savePrograms();
-        return;
+        exists = executables.length > 0;
+      } else {
+        exists = fs.existsSync(program.path);
       }
-
-      const data = fs.readFileSync(this.dataFilePath, { encoding: 'utf-8' });
-      const parsed = enrolledProgramsSchema.parse(JSON.parse(data));
-      this.programs = parsed.programs;
-      
-      // Validate that all program paths still exist
-      this.programs = this.programs.filter(program => {
-        if (fs.existsSync(program.path)) {
-          return true;
-        } else {
+      const status: ProgramStatus = exists ? 'available' : 'missing';
+      if (program.status !== status) {
+        if (status === 'missing') {
           Logging.instance().log(
-            `Removing enrolled program ${program.name} because path no longer exists: ${program.path}`,
-            LogLevel.INFO
+            `Enrolled program ${program.name} is missing, nothing matches: ${program.path}`,
+            LogLevel.WARN
           );
-          return false;
         }
-      });
-      
-      // Save the cleaned up list
+        program.status = status;
+        changed = true;
+      }
+    }
+    if (changed) {
       this.savePrograms();
-    } catch (error) {
-      Logging.instance().log(
-        `Failed to load enrolled programs: ${error}`,
-        LogLevel.ERROR,
-        true
-      );
-      this.programs = [];
     }
   }
 
@@ -92,9 +249,15 @@ export class EnrolledProgramsManager {
    * Save enrolled programs to persistent storage
    */
   private savePrograms(): void {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+      this.saveTimeout = null;
+    }
+    if (this.readOnly) {
+      return;
+    }
     try {
-      const data = { programs: this.programs };
-      fs.writeFileSync(this.dataFilePath, JSON.stringify(data, null, 2));
+      this.dataFile.save({ programs: this.programs });
     } catch (error) {
       Logging.instance().log(
         `Failed to save enrolled programs: ${error}`,
@@ -104,6 +267,12 @@ export class EnrolledProgramsManager {
     }
   }
 
+  private assertWritable(): void {
+    if (this.readOnly) {
+      throw new Error('Enrolled programs were saved by a newer version of WakaTime and can\'t be changed');
+    }
+  }
+
   /**
    * Generate a unique ID for a program
    */
@@ -112,10 +281,13 @@ export class EnrolledProgramsManager {
   }
 
   /**
-   * Enroll a new program
+   * Enroll a new program, optionally with rules for matching processes that
+   * run it through an interpreter or wrapper
    */
-  enrollProgram(programPath: string): EnrolledProgram | null {
+  enrollProgram(programPath: string, matchRules?: MatchRule[]): EnrolledProgram | null {
     try {
+      this.assertWritable();
+
       // Check if path exists
       if (!fs.existsSync(programPath)) {
         throw new Error(`Program path does not exist: ${programPath}`);
@@ -134,7 +306,11 @@ export class EnrolledProgramsManager {
         name: programName,
         path: programPath,
         enrolledAt: new Date().toISOString(),
+        status: 'available',
       };
+      if (matchRules && matchRules.length > 0) {
+        newProgram.matchRules = z.array(matchRuleSchema).parse(matchRules);
+      }
 
       this.programs.push(newProgram);
       this.savePrograms();
@@ -155,11 +331,58 @@ export class EnrolledProgramsManager {
     }
   }
 
+  /**
+   * Enroll a program by a glob, an executable name on PATH, or a Flatpak or
+   * Snap id, for programs whose path changes between versions or installs.
+   * The pattern doesn't need to match anything yet.
+   */
+  enrollPattern(pattern: ProgramPattern): EnrolledProgram | null {
+    try {
+      this.assertWritable();
+
+      const parsed = programPatternSchema.parse(pattern);
+      const key = patternKey(parsed);
+
+      if (this.isProgramEnrolled(key)) {
+        throw new Error(`Pattern is already enrolled: ${key}`);
+      }
+
+      const newProgram: EnrolledProgram = {
+        id: this.generateId(),
+        name: path.basename(parsed.value),
+        path: key,
+        enrolledAt: new Date().toISOString(),
+        pattern: parsed,
+      };
+
+      this.programs.push(newProgram);
+      this.savePrograms();
+      // Sets the status, once the pattern is resolved if it wasn't already
+      this.refreshStatus();
+
+      Logging.instance().log(
+        `Enrolled program pattern: ${key}`,
+        LogLevel.INFO
+      );
+
+      return newProgram;
+    } catch (error) {
+      Logging.instance().log(
+        `Failed to enroll program pattern: ${error}`,
+        LogLevel.ERROR,
+        true
+      );
+      return null;
+    }
+  }
+
   /**
    * Remove an enrolled program
    */
   removeProgram(programId: string): boolean {
     try {
+      this.assertWritable();
+
       const index = this.programs.findIndex(p => p.id === programId);
       if (index === -1) {
         return false;
@@ -185,6 +408,84 @@ export class EnrolledProgramsManager {
     }
   }
 
+  /**
+   * Update the settings of an enrolled program
+   */
+  updateProgram(programId: string, settings: EnrolledProgramSettings): EnrolledProgram | null {
+    try {
+      this.assertWritable();
+
+      const program = this.getProgramById(programId);
+      if (!program) {
+        return null;
+      }
+
+      Object.assign(program, enrolledProgramSettingsSchema.parse(settings));
+      this.savePrograms();
+
+      Logging.instance().log(
+        `Updated enrolled program: ${program.name}`,
+        LogLevel.INFO
+      );
+
+      return program;
+    } catch (error) {
+      Logging.instance().log(
+        `Failed to update program: ${error}`,
+        LogLevel.ERROR,
+        true
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Point an enrolled program at a new path, keeping its id, settings and
+   * history
+   */
+  relinkProgram(programId: string, programPath: string): EnrolledProgram | null {
+    try {
+      this.assertWritable();
+
+      const program = this.getProgramById(programId);
+      if (!program) {
+        return null;
+      }
+
+      if (program.pattern) {
+        throw new Error(`Programs enrolled by pattern can't be relinked: ${program.path}`);
+      }
+
+      if (!fs.existsSync(programPath)) {
+        throw new Error(`Program path does not exist: ${programPath}`);
+      }
+
+      const enrolled = this.getProgramByPath(programPath);
+      if (enrolled && enrolled.id !== programId) {
+        throw new Error(`Program is already enrolled: ${programPath}`);
+      }
+
+      const previousPath = program.path;
+      program.path = programPath;
+      program.status = 'available';
+      this.savePrograms();
+
+      Logging.instance().log(
+        `Relinked enrolled program ${program.name} from ${previousPath} to ${programPath}`,
+        LogLevel.INFO
+      );
+
+      return program;
+    } catch (error) {
+      Logging.instance().log(
+        `Failed to relink program: ${error}`,
+        LogLevel.ERROR,
+        true
+      );
+      return null;
+    }
+  }
+
   /**
    * Check if a program is enrolled by path
    */
@@ -220,10 +521,29 @@ export class EnrolledProgramsManager {
     const program = this.getProgramByPath(programPath);
     if (program) {
       program.lastSeen = new Date().toISOString();
+      // This changes every tick, so batch it into an occasional write
+      this.scheduleSave();
+    }
+  }
+
+  /**
+   * Write any changes that are waiting to be saved
+   */
+  flush(): void {
+    if (this.saveTimeout) {
       this.savePrograms();
     }
   }
 
+  private scheduleSave(): void {
+    if (!this.saveTimeout) {
+      this.saveTimeout = setTimeout(() => {
+        this.saveTimeout = null;
+        this.savePrograms();
+      }, SAVE_DELAY_MS);
+    }
+  }
+
   /**
    * Get paths of all enrolled programs
    */
@@ -0,0 +1,79 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import { matchesGlob } from "../utils";
+
+async function readOpenFiles(pid: number) {
+  const fdDir = `/proc/${pid}/fd`;
+  let fds: string[];
+  try {
+    fds = await fs.readdir(fdDir);
+  } catch (_error) {
+    // The process exited or belongs to another user
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const fd of fds) {
+    try {
+      const target = await fs.readlink(path.join(fdDir, fd));
+      // Sockets, pipes and anonymous inodes aren't absolute paths
+      if (path.isAbsolute(target) && !target.endsWith(" (deleted)")) {
+        files.push(target);
+      }
+    } catch (_error) {
+      // The descriptor was closed while reading
+    }
+  }
+  return files;
+}
+
+/**
+ * List the files a program's processes have open inside the project root that
+ * don't match any of the exclusion globs. Only works on Linux, returns an
+ * empty list elsewhere.
+ */
+export async function findOpenProjectFiles(
+  pids: number[],
+  projectRoot: string,
+  excludeGlobs: string[],
+) {
+  if (process.platform !== "linux") {
+    return [];
+  }
+
+  const rootPrefix = projectRoot.endsWith(path.sep)
+    ? projectRoot
+    : projectRoot + path.sep;
+  const files = new Set<string>();
+  for (const pid of pids) {
+    for (const file of await readOpenFiles(pid)) {
+      if (
+        file.startsWith(rootPrefix) &&
+        !excludeGlobs.some((glob) => matchesGlob(file, glob))
+      ) {
+        files.add(file);
+      }
+    }
+  }
+  return Array.from(files);
+}
+
+/**
+ * Pick the file a program is most likely working on from its open files: the
+ * most recently modified regular file. Returns null when nothing qualifies.
+ */
+export async function resolveOpenFileEntity(openFiles: string[]) {
+  let latest: { file: string; mtimeMs: number } | null = null;
+  for (const file of openFiles) {
+    try {
+      const stats = await fs.stat(file);
+      if (stats.isFile() && (!latest || stats.mtimeMs > latest.mtimeMs)) {
+        latest = { file, mtimeMs: stats.mtimeMs };
+      }
+    } catch (_error) {
+      // Removed since it was opened
+    }
+  }
+  return latest?.file ?? null;
+}
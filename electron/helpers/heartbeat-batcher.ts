@@ -0,0 +1,57 @@
+import type { Heartbeat } from "../utils/types";
+
+// Long enough to collect every heartbeat from one watcher tick
+const BATCH_WINDOW_MS = 1000;
+export const MAX_HEARTBEATS_PER_BATCH = 25;
+
+export type BatchSender = (heartbeats: Heartbeat[]) => Promise<void>;
+
+/**
+ * Collects heartbeats for a short window so they can be sent to wakatime-cli
+ * in a single invocation instead of spawning it once per heartbeat.
+ */
+export class HeartbeatBatcher {
+  private send: BatchSender;
+  private pending: Heartbeat[] = [];
+  private flushTimeout: NodeJS.Timeout | null = null;
+
+  constructor(send: BatchSender) {
+    this.send = send;
+  }
+
+  add(heartbeat: Heartbeat) {
+    this.pending.push(heartbeat);
+    if (this.pending.length >= MAX_HEARTBEATS_PER_BATCH) {
+      void this.flush();
+    } else if (!this.flushTimeout) {
+      this.flushTimeout = setTimeout(() => void this.flush(), BATCH_WINDOW_MS);
+    }
+  }
+
+  async flush() {
+    if (this.flushTimeout) {
+      clearTimeout(this.flushTimeout);
+      this.flushTimeout = null;
+    }
+    if (this.pending.length === 0) {
+      return;
+    }
+    const batch = this.pending;
+    this.pending = [];
+    await this.send(batch);
+  }
+
+  /**
+   * Remove and return the heartbeats waiting for the batch window, without
+   * sending them
+   */
+  takePending() {
+    if (this.flushTimeout) {
+      clearTimeout(this.flushTimeout);
+      this.flushTimeout = null;
+    }
+    const pending = this.pending;
+    this.pending = [];
+    return pending;
+  }
+}
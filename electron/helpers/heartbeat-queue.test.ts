@@ -0,0 +1,161 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { Heartbeat } from "../utils/types";
+import { HeartbeatQueue } from "./heartbeat-queue";
+
+const appData = vi.hoisted(() => ({ path: "" }));
+
+vi.mock("electron", () => ({
+  app: { getPath: () => appData.path },
+}));
+
+vi.mock("../utils/logging", () => ({
+  Logging: { instance: () => ({ log: () => {} }) },
+  LogLevel: { DEBUG: 0, INFO: 1, WARN: 2, ERROR: 3 },
+}));
+
+const heartbeat = (time: number): Heartbeat => ({
+  entity: "/usr/bin/editor",
+  entityType: "app",
+  category: "coding",
+  project: null,
+  language: null,
+  isWrite: false,
+  plugin: "desktop-wakatime",
+  time,
+});
+
+const heartbeats = (from: number, count: number) =>
+  Array.from({ length: count }, (_, index) => heartbeat(from + index));
+
+const times = (sent: Heartbeat[]) => sent.map((h) => h.time);
+
+describe("HeartbeatQueue", () => {
+  beforeEach(() => {
+    appData.path = fs.mkdtempSync(path.join(os.tmpdir(), "heartbeat-queue-"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(appData.path, { recursive: true, force: true });
+  });
+
+  it("persists queued heartbeats across restarts", () => {
+    new HeartbeatQueue().enqueue(...heartbeats(1, 3));
+
+    const queue = new HeartbeatQueue();
+    expect(queue.size).toBe(3);
+  });
+
+  it("replays oldest first in batches of 25", async () => {
+    const queue = new HeartbeatQueue();
+    queue.enqueue(...heartbeats(1, 60));
+    const batches: number[][] = [];
+
+    await queue.replay(async (batch) => {
+      batches.push(times(batch));
+      return true;
+    });
+
+    expect(batches.map((batch) => batch.length)).toEqual([25, 25, 10]);
+    expect(batches.flat()).toEqual(times(heartbeats(1, 60)));
+    expect(queue.size).toBe(0);
+    expect(new HeartbeatQueue().size).toBe(0);
+  });
+
+  it("keeps the failed batch and everything after it", async () => {
+    const queue = new HeartbeatQueue();
+    queue.enqueue(...heartbeats(1, 60));
+    let calls = 0;
+
+    await queue.replay(async () => ++calls === 1);
+
+    expect(calls).toBe(2);
+    expect(queue.size).toBe(35);
+    expect(new HeartbeatQueue().size).toBe(35);
+  });
+
+  it("drops the oldest heartbeats past 10000", () => {
+    const queue = new HeartbeatQueue();
+    queue.enqueue(...heartbeats(1, 9990));
+    queue.enqueue(...heartbeats(9991, 20));
+
+    expect(queue.size).toBe(10000);
+  });
+
+  it("drops the oldest heartbeats when the queue overflows mid-replay", async () => {
+    const queue = new HeartbeatQueue();
+    queue.enqueue(...heartbeats(1, 10000));
+    const batches: number[][] = [];
+
+    await queue.replay(async (batch) => {
+      if (batches.length === 0) {
+        // Overflowing by 30 while the first batch is in flight drops that
+        // whole batch and the first 5 heartbeats of the next one
+        queue.enqueue(...heartbeats(10001, 30));
+      }
+      batches.push(times(batch));
+      return batches.length < 3;
+    });
+
+    expect(batches).toEqual([
+      times(heartbeats(1, 25)),
+      times(heartbeats(31, 25)),
+      times(heartbeats(56, 25)),
+    ]);
+    // Sending the dropped first batch must not remove unsent heartbeats
+    expect(queue.size).toBe(10000 - 25);
+    const persisted = JSON.parse(
+      fs.readFileSync(queue.filePath, "utf-8"),
+    ).heartbeats;
+    expect(persisted[0].time).toBe(56);
+    expect(persisted.at(-1).time).toBe(10030);
+  });
+
+  it("backs off exponentially between failed replays", async () => {
+    vi.useFakeTimers();
+    const queue = new HeartbeatQueue();
+    queue.enqueue(heartbeat(1));
+    const send = vi.fn(async () => false);
+
+    await queue.replay(send);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    // 60s after the first failure, then 120s after the second
+    await vi.advanceTimersByTimeAsync(59_999);
+    expect(send).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(send).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(119_999);
+    expect(send).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(send).toHaveBeenCalledTimes(3);
+
+    send.mockImplementation(async () => true);
+    await vi.advanceTimersByTimeAsync(240_000);
+    expect(send).toHaveBeenCalledTimes(4);
+    expect(queue.size).toBe(0);
+  });
+
+  it("caps the backoff at 30 minutes", async () => {
+    vi.useFakeTimers();
+    const queue = new HeartbeatQueue();
+    queue.enqueue(heartbeat(1));
+    const send = vi.fn(async () => false);
+
+    await queue.replay(send);
+    await vi.advanceTimersByTimeAsync(
+      60_000 + 120_000 + 240_000 + 480_000 + 960_000,
+    );
+    expect(send).toHaveBeenCalledTimes(6);
+
+    // The next delay would be 32 minutes
+    await vi.advanceTimersByTimeAsync(30 * 60 * 1000 - 1);
+    expect(send).toHaveBeenCalledTimes(6);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(send).toHaveBeenCalledTimes(7);
+  });
+});
@@ -0,0 +1,183 @@
+import path from "node:path";
+import { z } from "zod";
+
+import type { Heartbeat } from "../utils/types";
+import { getWakatimeAppDataFolderPath } from "../utils";
+import { Logging, LogLevel } from "../utils/logging";
+import { categories, entityTypes } from "../utils/types";
+import { readFileWithRecovery, writeFileAtomic } from "./atomic-file";
+import { MAX_HEARTBEATS_PER_BATCH } from "./heartbeat-batcher";
+
+// Oldest heartbeats are dropped past this, to keep the file bounded while the
+// CLI is broken for a long time
+const MAX_QUEUED_HEARTBEATS = 10000;
+const MIN_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+
+const heartbeatSchema = z.object({
+  entity: z.string(),
+  entityType: z.enum(entityTypes),
+  category: z.enum(categories),
+  project: z.string().nullable(),
+  language: z.string().nullable(),
+  isWrite: z.boolean(),
+  plugin: z.string(),
+  time: z.number(),
+});
+
+const heartbeatQueueSchema = z.object({
+  heartbeats: z.array(heartbeatSchema),
+});
+
+export type HeartbeatSender = (heartbeats: Heartbeat[]) => Promise<boolean>;
+
+/**
+ * Heartbeats that wakatime-cli failed to accept, persisted so they survive
+ * restarts and replayed in order once the CLI works again.
+ */
+export class HeartbeatQueue {
+  static _instacneCache?: HeartbeatQueue;
+  filePath: string;
+  private heartbeats: Heartbeat[] = [];
+  private failedAttempts = 0;
+  private retryTimeout: NodeJS.Timeout | null = null;
+  private isReplaying = false;
+  private changeListeners: (() => void)[] = [];
+
+  constructor() {
+    this.filePath = path.join(
+      getWakatimeAppDataFolderPath(),
+      "offline-heartbeats.json",
+    );
+    this.load();
+  }
+
+  static instance(): HeartbeatQueue {
+    if (!this._instacneCache) {
+      this._instacneCache = new this();
+    }
+    return this._instacneCache;
+  }
+
+  get size() {
+    return this.heartbeats.length;
+  }
+
+  /**
+   * Register a listener for changes to the queue depth
+   */
+  onChange(listener: () => void) {
+    this.changeListeners.push(listener);
+  }
+
+  enqueue(...heartbeats: Heartbeat[]) {
+    this.heartbeats.push(...heartbeats);
+    if (this.heartbeats.length > MAX_QUEUED_HEARTBEATS) {
+      const dropped = this.heartbeats.length - MAX_QUEUED_HEARTBEATS;
+      this.heartbeats.splice(0, dropped);
+      Logging.instance().log(
+        `Offline heartbeat queue is full, dropped ${dropped} oldest heartbeats`,
+        LogLevel.WARN,
+      );
+    }
+    this.save();
+  }
+
+  /**
+   * Send queued heartbeats oldest first in batches, stopping at the first
+   * failure and retrying later with exponential backoff.
+   */
+  async replay(send: HeartbeatSender) {
+    if (this.isReplaying || this.heartbeats.length === 0) {
+      return;
+    }
+    this.isReplaying = true;
+    this.cancelRetry();
+
+    try {
+      Logging.instance().log(
+        `Replaying ${this.heartbeats.length} offline heartbeats`,
+        LogLevel.INFO,
+      );
+      while (this.heartbeats.length > 0) {
+        const batch = this.heartbeats.slice(0, MAX_HEARTBEATS_PER_BATCH);
+        const sent = await send(batch);
+        if (!sent) {
+          this.failedAttempts++;
+          this.scheduleReplay(send);
+          return;
+        }
+        // Entries can be enqueued, and the oldest dropped, while a batch is
+        // in flight, so remove exactly the ones that were sent
+        const sentHeartbeats = new Set(batch);
+        this.heartbeats = this.heartbeats.filter(
+          (heartbeat) => !sentHeartbeats.has(heartbeat),
+        );
+        this.save();
+      }
+      this.failedAttempts = 0;
+    } finally {
+      this.isReplaying = false;
+    }
+  }
+
+  /**
+   * Replay after the current backoff delay, unless a replay is already pending
+   */
+  scheduleReplay(send: HeartbeatSender) {
+    if (this.retryTimeout || this.heartbeats.length === 0) {
+      return;
+    }
+    const delay = Math.min(
+      MIN_RETRY_DELAY_MS * 2 ** this.failedAttempts,
+      MAX_RETRY_DELAY_MS,
+    );
+    Logging.instance().log(
+      `Retrying ${this.heartbeats.length} offline heartbeats in ${delay / 1000}s`,
+    );
+    this.retryTimeout = setTimeout(() => {
+      this.retryTimeout = null;
+      void this.replay(send);
+    }, delay);
+  }
+
+  private cancelRetry() {
+    if (this.retryTimeout) {
+      clearTimeout(this.retryTimeout);
+      this.retryTimeout = null;
+    }
+  }
+
+  private load() {
+    try {
+      const parsed = readFileWithRecovery(this.filePath, (contents) =>
+        heartbeatQueueSchema.parse(JSON.parse(contents)),
+      );
+      this.heartbeats = parsed?.heartbeats ?? [];
+    } catch (error) {
+      Logging.instance().log(
+        `Failed to load offline heartbeats: ${error}`,
+        LogLevel.ERROR,
+        true,
+      );
+    }
+  }
+
+  private save() {
+    try {
+      writeFileAtomic(
+        this.filePath,
+        JSON.stringify({ heartbeats: this.heartbeats }),
+      );
+    } catch (error) {
+      Logging.instance().log(
+        `Failed to save offline heartbeats: ${error}`,
+        LogLevel.ERROR,
+        true,
+      );
+    }
+    for (const listener of this.changeListeners) {
+      listener();
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+
+import { HeartbeatThrottle } from "./heartbeat-throttle";
+
+const editor = {
+  appPath: "/usr/bin/editor",
+  entity: "/home/user/project/main.ts",
+  category: "coding" as const,
+};
+const browser = {
+  appPath: "/usr/bin/browser",
+  entity: "/usr/bin/browser",
+  category: "browsing" as const,
+};
+
+describe("HeartbeatThrottle", () => {
+  it("sends the first heartbeat for an activity", () => {
+    const throttle = new HeartbeatThrottle();
+    expect(throttle.shouldSend(editor, 1000, false)).toBe(true);
+  });
+
+  it("skips repeats within two minutes", () => {
+    const throttle = new HeartbeatThrottle();
+    throttle.shouldSend(editor, 1000, false);
+    expect(throttle.shouldSend(editor, 1060, false)).toBe(false);
+    expect(throttle.shouldSend(editor, 1120, false)).toBe(false);
+    expect(throttle.shouldSend(editor, 1121, false)).toBe(true);
+  });
+
+  it("always sends writes", () => {
+    const throttle = new HeartbeatThrottle();
+    throttle.shouldSend(editor, 1000, false);
+    expect(throttle.shouldSend(editor, 1001, true)).toBe(true);
+  });
+
+  it("throttles each app, entity and category on its own", () => {
+    const throttle = new HeartbeatThrottle();
+    throttle.shouldSend(editor, 1000, false);
+
+    expect(
+      throttle.shouldSend(
+        { ...editor, appPath: "/usr/bin/other" },
+        1010,
+        false,
+      ),
+    ).toBe(true);
+    expect(
+      throttle.shouldSend(
+        { ...editor, entity: "/home/user/b.ts" },
+        1010,
+        false,
+      ),
+    ).toBe(true);
+    expect(
+      throttle.shouldSend({ ...editor, category: "debugging" }, 1010, false),
+    ).toBe(true);
+    expect(throttle.shouldSend(editor, 1010, false)).toBe(false);
+  });
+
+  it("doesn't let interleaved programs reset each other", () => {
+    const throttle = new HeartbeatThrottle();
+    const sent: string[] = [];
+    // Two programs running side by side, checked every minute
+    for (let time = 0; time <= 300; time += 60) {
+      for (const key of [editor, browser]) {
+        if (throttle.shouldSend(key, time, false)) {
+          sent.push(`${key.appPath}@${time}`);
+        }
+      }
+    }
+    expect(sent).toEqual([
+      "/usr/bin/editor@0",
+      "/usr/bin/browser@0",
+      "/usr/bin/editor@180",
+      "/usr/bin/browser@180",
+    ]);
+  });
+
+  it("sends again after a reset", () => {
+    const throttle = new HeartbeatThrottle();
+    throttle.shouldSend(editor, 1000, false);
+    throttle.reset();
+    expect(throttle.shouldSend(editor, 1001, false)).toBe(true);
+  });
+});
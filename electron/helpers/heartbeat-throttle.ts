@@ -0,0 +1,57 @@
+import type { Category } from "../utils/types";
+
+// Seconds before a heartbeat for the same activity is sent again
+const HEARTBEAT_INTERVAL = 120;
+
+export interface ThrottleKey {
+  appPath: string;
+  entity: string;
+  category: Category;
+}
+
+/**
+ * Decides which heartbeats are worth sending. Each (app, entity, category)
+ * is throttled on its own, so programs running side by side don't reset each
+ * other's timer.
+ */
+export class HeartbeatThrottle {
+  private lastSent = new Map<string, number>();
+
+  /**
+   * Check whether a heartbeat should be sent at `time` (in seconds), and
+   * record it as sent if so
+   */
+  shouldSend(key: ThrottleKey, time: number, isWrite: boolean) {
+    const id = this.keyId(key);
+    const lastTime = this.lastSent.get(id);
+    if (
+      !isWrite &&
+      lastTime !== undefined &&
+      lastTime + HEARTBEAT_INTERVAL >= time
+    ) {
+      return false;
+    }
+
+    this.lastSent.set(id, time);
+    this.prune(time);
+    return true;
+  }
+
+  reset() {
+    this.lastSent.clear();
+  }
+
+  private keyId(key: ThrottleKey) {
+    return JSON.stringify([key.appPath, key.entity, key.category]);
+  }
+
+  // Entries older than the interval would be sent anyway, so drop them to keep
+  // the map from growing with every entity ever seen
+  private prune(time: number) {
+    for (const [id, lastTime] of this.lastSent) {
+      if (lastTime + HEARTBEAT_INTERVAL < time) {
+        this.lastSent.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { powerMonitor } from "electron";
+
+import { Logging, LogLevel } from "../utils/logging";
+import { PropertiesManager } from "./properties-manager";
+
+/**
+ * Tracks whether the user is present, based on system idle time and
+ * lock-screen and suspend events. Must be started after the app is ready.
+ */
+export class IdleMonitor {
+  static _instacneCache?: IdleMonitor;
+  private started = false;
+  private isLocked = false;
+  private isSuspended = false;
+  private wasIdle = false;
+  private resumeListeners: (() => void)[] = [];
+
+  static instance(): IdleMonitor {
+    if (!this._instacneCache) {
+      this._instacneCache = new this();
+    }
+    return this._instacneCache;
+  }
+
+  start() {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    powerMonitor.on("lock-screen", () => {
+      Logging.instance().log("Screen locked", LogLevel.INFO);
+      this.isLocked = true;
+      this.wasIdle = true;
+    });
+    powerMonitor.on("unlock-screen", () => {
+      Logging.instance().log("Screen unlocked", LogLevel.INFO);
+      this.isLocked = false;
+      this.notifyResume();
+    });
+    powerMonitor.on("suspend", () => {
+      Logging.instance().log("System suspended", LogLevel.INFO);
+      this.isSuspended = true;
+      this.wasIdle = true;
+    });
+    powerMonitor.on("resume", () => {
+      Logging.instance().log("System resumed", LogLevel.INFO);
+      this.isSuspended = false;
+      this.notifyResume();
+    });
+  }
+
+  /**
+   * Register a listener for when the user returns after being idle, locked or
+   * suspended. Returns a function that removes it.
+   */
+  onResume(listener: () => void) {
+    this.resumeListeners.push(listener);
+    return () => {
+      this.resumeListeners = this.resumeListeners.filter(
+        (item) => item !== listener,
+      );
+    };
+  }
+
+  isIdle() {
+    if (this.isLocked || this.isSuspended) {
+      return true;
+    }
+
+    // Lock-screen events aren't emitted on every platform, but the idle state
+    // still reports a locked screen where the OS exposes it
+    const state = powerMonitor.getSystemIdleState(
+      PropertiesManager.idleThreshold,
+    );
+    const idle = state === "idle" || state === "locked";
+
+    if (idle) {
+      this.wasIdle = true;
+    } else if (this.wasIdle) {
+      this.notifyResume();
+    }
+    return idle;
+  }
+
+  private notifyResume() {
+    if (!this.wasIdle) {
+      return;
+    }
+    this.wasIdle = false;
+    for (const listener of this.resumeListeners) {
+      listener();
+    }
+  }
+}
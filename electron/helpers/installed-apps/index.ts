@@ -1,5 +1,6 @@
 import { AppData } from "../../utils/validators";
 import { AppsManager } from "../apps-manager";
+import { getInstalledApps as getInstalledAppsLinux } from "./linux";
 import { getInstalledApps as getInstalledAppsMac } from "./mac";
 import { getInstalledApps as getInstalledAppsWindows } from "./windows";
 
@@ -10,6 +11,8 @@ export async function getApps(): Promise<AppData[]> {
     apps = await getInstalledAppsWindows();
   } else if (process.platform === "darwin") {
     apps = await getInstalledAppsMac();
+  } else if (process.platform === "linux") {
+    apps = await getInstalledAppsLinux();
   }
 
   return apps.filter((app) => !AppsManager.isExcludedApp(app));
@@ -0,0 +1,331 @@
+import fs from "node:fs";
+import path from "node:path";
+import { app as electronApp } from "electron";
+
+import { Store } from "../../store";
+import { Logging, LogLevel } from "../../utils/logging";
+
+interface IconDirectory {
+  name: string;
+  size: number;
+  scale: number;
+  minSize: number;
+  maxSize: number;
+  threshold: number;
+  type: "Fixed" | "Scalable" | "Threshold";
+}
+
+interface IconTheme {
+  directories: IconDirectory[];
+  inherits: string[];
+}
+
+const ICON_SIZE = 64;
+// XPM icons are left out, since Chromium can't render them
+const ICON_EXTENSIONS = [".png", ".svg"];
+const MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".svg": "image/svg+xml",
+};
+// Listings are shared by the lookups of one scan, and refreshed after this
+// long to pick up newly installed icons
+const LISTING_TTL_MS = 60 * 1000;
+
+// Parsed index.theme files, keyed by theme name, or null for missing themes
+const themes = new Map<string, IconTheme | null>();
+// File names in icon directories, empty for missing directories
+const listings = new Map<
+  string,
+  { expiresAt: number; files: Promise<Set<string>> }
+>();
+
+function getIconBaseDirs(dataDirs: string[]) {
+  return [
+    path.join(electronApp.getPath("home"), ".icons"),
+    ...dataDirs.map((dataDir) => path.join(dataDir, "icons")),
+  ];
+}
+
+function readIniValue(file: string, group: string, key: string) {
+  try {
+    const contents = fs.readFileSync(file, { encoding: "utf-8" });
+    let inGroup = false;
+    for (const rawLine of contents.split("\n")) {
+      const line = rawLine.trim();
+      if (line.startsWith("[")) {
+        inGroup = line === `[${group}]`;
+      } else if (inGroup && line.startsWith(`${key}=`)) {
+        return line.slice(key.length + 1).trim() || null;
+      }
+    }
+  } catch (_error) {
+    /* empty */
+  }
+  return null;
+}
+
+/**
+ * The icon theme picked in the desktop settings. GTK and KDE both write it to
+ * a settings file, which avoids spawning gsettings.
+ */
+function getCurrentThemeName() {
+  const configDir =
+    process.env.XDG_CONFIG_HOME ||
+    path.join(electronApp.getPath("home"), ".config");
+  return (
+    readIniValue(
+      path.join(configDir, "gtk-4.0/settings.ini"),
+      "Settings",
+      "gtk-icon-theme-name",
+    ) ??
+    readIniValue(
+      path.join(configDir, "gtk-3.0/settings.ini"),
+      "Settings",
+      "gtk-icon-theme-name",
+    ) ??
+    readIniValue(path.join(configDir, "kdeglobals"), "Icons", "Theme")
+  );
+}
+
+function parseIndexTheme(contents: string): IconTheme {
+  const groups = new Map<string, Record<string, string>>();
+  let group: Record<string, string> | null = null;
+  for (const rawLine of contents.split("\n")) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) {
+      continue;
+    }
+    if (line.startsWith("[") && line.endsWith("]")) {
+      group = {};
+      groups.set(line.slice(1, -1), group);
+      continue;
+    }
+    const separator = line.indexOf("=");
+    if (group && separator !== -1) {
+      group[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+  }
+
+  const list = (value?: string) =>
+    (value ?? "").split(",").filter((item) => item.trim());
+  const main = groups.get("Icon Theme") ?? {};
+
+  const directories = [
+    ...list(main["Directories"]),
+    ...list(main["ScaledDirectories"]),
+  ].flatMap((name): IconDirectory[] => {
+    const dir = groups.get(name);
+    const size = Number(dir?.["Size"]);
+    if (!dir || !size) {
+      return [];
+    }
+    const type = dir["Type"];
+    return [
+      {
+        name,
+        size,
+        scale: Number(dir["Scale"]) || 1,
+        minSize: Number(dir["MinSize"]) || size,
+        maxSize: Number(dir["MaxSize"]) || size,
+        threshold: Number(dir["Threshold"]) || 2,
+        type: type === "Fixed" || type === "Scalable" ? type : "Threshold",
+      },
+    ];
+  });
+
+  return { directories, inherits: list(main["Inherits"]) };
+}
+
+function loadTheme(name: string, baseDirs: string[]) {
+  if (!themes.has(name)) {
+    let theme: IconTheme | null = null;
+    for (const baseDir of baseDirs) {
+      try {
+        const contents = fs.readFileSync(
+          path.join(baseDir, name, "index.theme"),
+          { encoding: "utf-8" },
+        );
+        theme = parseIndexTheme(contents);
+        break;
+      } catch (_error) {
+        /* empty */
+      }
+    }
+    themes.set(name, theme);
+  }
+  return themes.get(name) ?? null;
+}
+
+// DirectoryMatchesSize from the icon theme spec
+function directoryMatchesSize(dir: IconDirectory, size: number) {
+  if (dir.scale !== 1) {
+    return false;
+  }
+  if (dir.type === "Fixed") {
+    return dir.size === size;
+  }
+  if (dir.type === "Scalable") {
+    return dir.minSize <= size && size <= dir.maxSize;
+  }
+  return dir.size - dir.threshold <= size && size <= dir.size + dir.threshold;
+}
+
+// DirectorySizeDistance from the icon theme spec
+function directorySizeDistance(dir: IconDirectory, size: number) {
+  if (dir.type === "Fixed") {
+    return Math.abs(dir.size * dir.scale - size);
+  }
+  if (dir.type === "Scalable") {
+    if (size < dir.minSize * dir.scale) {
+      return dir.minSize * dir.scale - size;
+    }
+    if (size > dir.maxSize * dir.scale) {
+      return size - dir.maxSize * dir.scale;
+    }
+    return 0;
+  }
+  if (size < (dir.size - dir.threshold) * dir.scale) {
+    return dir.minSize * dir.scale - size;
+  }
+  if (size > (dir.size + dir.threshold) * dir.scale) {
+    return size - dir.maxSize * dir.scale;
+  }
+  return 0;
+}
+
+function listDirectory(directory: string) {
+  const now = Date.now();
+  let listing = listings.get(directory);
+  if (!listing || listing.expiresAt <= now) {
+    listing = {
+      expiresAt: now + LISTING_TTL_MS,
+      files: fs.promises.readdir(directory).then(
+        (files) => new Set(files),
+        () => new Set<string>(),
+      ),
+    };
+    listings.set(directory, listing);
+  }
+  return listing.files;
+}
+
+async function findIconInDirectory(iconName: string, directory: string) {
+  const files = await listDirectory(directory);
+  const extension = ICON_EXTENSIONS.find((extension) =>
+    files.has(iconName + extension),
+  );
+  return extension ? path.join(directory, iconName + extension) : null;
+}
+
+async function findIconInTheme(
+  iconName: string,
+  theme: IconTheme,
+  themeName: string,
+  baseDirs: string[],
+) {
+  let closest: string | null = null;
+  let closestDistance = Infinity;
+  for (const dir of theme.directories) {
+    const distance = directoryMatchesSize(dir, ICON_SIZE)
+      ? 0
+      : directorySizeDistance(dir, ICON_SIZE);
+    if (distance >= closestDistance) {
+      continue;
+    }
+    for (const baseDir of baseDirs) {
+      const file = await findIconInDirectory(
+        iconName,
+        path.join(baseDir, themeName, dir.name),
+      );
+      if (file) {
+        closest = file;
+        closestDistance = distance;
+        break;
+      }
+    }
+    if (closestDistance === 0) {
+      break;
+    }
+  }
+  return closest;
+}
+
+/**
+ * Find the file for an icon name, looking through the current icon theme,
+ * the themes it inherits from and hicolor, and finally the pixmaps folder, as
+ * described by the freedesktop icon theme spec
+ */
+async function findIconFile(
+  iconName: string,
+  themeName: string | null,
+  dataDirs: string[],
+) {
+  const baseDirs = getIconBaseDirs(dataDirs);
+  const queue = [themeName, "hicolor"].filter((name): name is string => !!name);
+  const visited = new Set<string>();
+
+  while (queue.length > 0) {
+    const themeName = queue.shift()!;
+    if (visited.has(themeName)) {
+      continue;
+    }
+    visited.add(themeName);
+
+    const theme = loadTheme(themeName, baseDirs);
+    if (!theme) {
+      continue;
+    }
+    const file = await findIconInTheme(iconName, theme, themeName, baseDirs);
+    if (file) {
+      return file;
+    }
+    // Inherited themes come before hicolor, which every theme falls back to
+    queue.splice(queue.length - 1, 0, ...theme.inherits);
+  }
+
+  for (const pixmapsDir of [
+    ...baseDirs,
+    ...dataDirs.map((dataDir) => path.join(dataDir, "pixmaps")),
+  ]) {
+    const file = await findIconInDirectory(iconName, pixmapsDir);
+    if (file) {
+      return file;
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the `Icon` of a desktop entry as a data URL. The value is either a file
+ * path or the name of an icon in the icon theme.
+ */
+export async function getIconDataUrl(icon: string, dataDirs: string[]) {
+  try {
+    // Named icons are looked up again when the icon theme changes
+    const themeName = path.isAbsolute(icon) ? null : getCurrentThemeName();
+    const cacheKey = themeName ? `${icon}-${themeName}-icon` : `${icon}-icon`;
+    const cachedIcon = Store.instance().get(cacheKey);
+    if (typeof cachedIcon === "string") {
+      return cachedIcon;
+    }
+
+    const file = path.isAbsolute(icon)
+      ? icon
+      : await findIconFile(icon, themeName, dataDirs);
+    const mimeType = file && MIME_TYPES[path.extname(file).toLowerCase()];
+    if (!file || !mimeType) {
+      return null;
+    }
+
+    const contents = await fs.promises.readFile(file);
+    const dataUrl = `data:${mimeType};base64,${contents.toString("base64")}`;
+    Store.instance().set(cacheKey, dataUrl);
+    return dataUrl;
+  } catch (error) {
+    Logging.instance().log(
+      `Failed to get icon for ${icon}: ${error}`,
+      LogLevel.ERROR,
+    );
+    return null;
+  }
+}
@@ -0,0 +1,322 @@
+import fs from "node:fs";
+import path from "node:path";
+import { app as electronApp } from "electron";
+
+import { AppData } from "../../utils/validators";
+import { allApps } from "../../watchers/apps";
+import { getIconDataUrl } from "./linux-icons";
+
+type DesktopEntry = Record<string, string>;
+
+const FLATPAK_SYSTEM_DIR = "/var/lib/flatpak";
+const SNAP_DIR = "/snap";
+
+function flatpakUserDir() {
+  return path.join(electronApp.getPath("home"), ".local/share/flatpak");
+}
+
+/**
+ * Directories containing an `applications` folder, in order of precedence as
+ * defined by the XDG base directory spec, followed by the exports of Flatpak
+ * and Snap which aren't always on XDG_DATA_DIRS
+ */
+function getDataDirs() {
+  const dataHome =
+    process.env.XDG_DATA_HOME ||
+    path.join(electronApp.getPath("home"), ".local/share");
+  const dataDirs = (
+    process.env.XDG_DATA_DIRS || "/usr/local/share:/usr/share"
+  ).split(":");
+
+  return Array.from(
+    new Set(
+      [
+        dataHome,
+        ...dataDirs,
+        path.join(flatpakUserDir(), "exports/share"),
+        path.join(FLATPAK_SYSTEM_DIR, "exports/share"),
+        "/var/lib/snapd/desktop",
+      ].filter(Boolean),
+    ),
+  );
+}
+
+// Desktop entry ids are the path below `applications` with `/` replaced by `-`
+async function findDesktopFiles(directory: string, prefix = "") {
+  const files: { id: string; filePath: string }[] = [];
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(directory, { withFileTypes: true });
+  } catch (_error) {
+    return files;
+  }
+
+  for (const entry of entries) {
+    const filePath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(
+        ...(await findDesktopFiles(filePath, `${prefix}${entry.name}-`)),
+      );
+    } else if (entry.name.endsWith(".desktop")) {
+      files.push({
+        id: prefix + entry.name.slice(0, -".desktop".length),
+        filePath,
+      });
+    }
+  }
+  return files;
+}
+
+/**
+ * Read the keys of the `[Desktop Entry]` group. Localized keys like
+ * `Name[de]` are skipped, so the untranslated values are used.
+ */
+function parseDesktopEntry(contents: string): DesktopEntry {
+  const entry: DesktopEntry = {};
+  let inMainGroup = false;
+  for (const rawLine of contents.split("\n")) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) {
+      continue;
+    }
+    if (line.startsWith("[")) {
+      inMainGroup = line === "[Desktop Entry]";
+      continue;
+    }
+    if (!inMainGroup) {
+      continue;
+    }
+
+    const separator = line.indexOf("=");
+    if (separator === -1) {
+      continue;
+    }
+    const key = line.slice(0, separator).trim();
+    if (!key.includes("[") && !(key in entry)) {
+      entry[key] = line.slice(separator + 1).trim();
+    }
+  }
+  return entry;
+}
+
+/**
+ * Split an `Exec` value into arguments, following the quoting rules of the
+ * desktop entry spec, and drop field codes like `%U`
+ */
+function parseExec(exec: string) {
+  const args: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  let hasArg = false;
+  for (let i = 0; i < exec.length; i++) {
+    const char = exec[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+      hasArg = true;
+    } else if (char === "\\" && inQuotes && i + 1 < exec.length) {
+      current += exec[++i];
+    } else if (char === " " && !inQuotes) {
+      if (hasArg) {
+        args.push(current);
+      }
+      current = "";
+      hasArg = false;
+    } else {
+      current += char;
+      hasArg = true;
+    }
+  }
+  if (hasArg) {
+    args.push(current);
+  }
+
+  return args
+    .filter((arg) => !/^%[a-zA-Z]$/.test(arg))
+    .map((arg) => arg.replace(/%%/g, "%"));
+}
+
+function findInPath(name: string) {
+  const directories = (process.env.PATH ?? "").split(path.delimiter);
+  for (const directory of directories) {
+    const candidate = directory && path.join(directory, name);
+    if (candidate && fs.existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the executable an `Exec` line runs. Flatpak apps run inside their
+ * sandbox, so they resolve to the launcher Flatpak exports for them, and Snap
+ * launchers are kept as they are, since they all link to the snap binary.
+ */
+function resolveExec(args: string[]) {
+  // Skip `env VAR=value` prefixes
+  let index = 0;
+  if (args[index] && path.basename(args[index]) === "env") {
+    index++;
+    while (args[index]?.includes("=")) {
+      index++;
+    }
+  }
+
+  const command = args[index];
+  if (!command) {
+    return null;
+  }
+
+  if (path.basename(command) === "flatpak" && args[index + 1] === "run") {
+    const appId = args.slice(index + 2).find((arg) => !arg.startsWith("-"));
+    if (!appId) {
+      return null;
+    }
+    return (
+      [flatpakUserDir(), FLATPAK_SYSTEM_DIR]
+        .map((dir) => path.join(dir, "exports/bin", appId))
+        .find((launcher) => fs.existsSync(launcher)) ?? null
+    );
+  }
+
+  const executable = path.isAbsolute(command) ? command : findInPath(command);
+  if (!executable || !fs.existsSync(executable)) {
+    return null;
+  }
+  if (executable.startsWith(`${SNAP_DIR}/bin/`)) {
+    return executable;
+  }
+  try {
+    return fs.realpathSync(executable);
+  } catch (_error) {
+    return executable;
+  }
+}
+
+/**
+ * Desktop entries don't carry the app version, so look for it in the Flatpak
+ * metainfo or the Snap manifest
+ */
+async function getVersion(entry: DesktopEntry, executable: string) {
+  const declared = entry["X-AppImage-Version"] || entry["X-App-Version"];
+  if (declared) {
+    return declared;
+  }
+
+  try {
+    if (executable.includes("/flatpak/exports/bin/")) {
+      const appId = path.basename(executable);
+      const metainfo = await fs.promises.readFile(
+        path.join(
+          executable,
+          "../../../app",
+          appId,
+          "current/active/files/share/metainfo",
+          `${appId}.metainfo.xml`,
+        ),
+        { encoding: "utf-8" },
+      );
+      return metainfo.match(/<release[^>]*\sversion="([^"]+)"/)?.[1] ?? null;
+    }
+
+    if (executable.startsWith(`${SNAP_DIR}/bin/`)) {
+      const snapName = path.basename(executable).split(".")[0];
+      const manifest = await fs.promises.readFile(
+        path.join(SNAP_DIR, snapName, "current/meta/snap.yaml"),
+        { encoding: "utf-8" },
+      );
+      return (
+        manifest.match(/^version:\s*['"]?([^'"\n]+)/m)?.[1]?.trim() ?? null
+      );
+    }
+  } catch (_error) {
+    /* empty */
+  }
+  return null;
+}
+
+async function getAppData(id: string, filePath: string) {
+  let contents: string;
+  try {
+    contents = await fs.promises.readFile(filePath, { encoding: "utf-8" });
+  } catch (_error) {
+    return;
+  }
+
+  const entry = parseDesktopEntry(contents);
+  if (
+    entry["Type"] !== "Application" ||
+    entry["NoDisplay"] === "true" ||
+    entry["Hidden"] === "true" ||
+    !entry["Name"] ||
+    !entry["Exec"]
+  ) {
+    return;
+  }
+
+  if (entry["TryExec"] && !resolveExec([entry["TryExec"]])) {
+    return;
+  }
+
+  const executable = resolveExec(parseExec(entry["Exec"]));
+  if (!executable) {
+    return;
+  }
+
+  const app = allApps.find((app) => app.linux?.desktopIds.includes(id));
+
+  return {
+    id: app?.id ?? id,
+    name: entry["Name"],
+    path: executable,
+    icon: entry["Icon"]
+      ? await getIconDataUrl(entry["Icon"], getDataDirs())
+      : null,
+    version: await getVersion(entry, executable),
+    bundleId: null,
+    isBrowser: app?.isBrowser ?? false,
+    // Opt-in on Linux, even for apps the catalog monitors by default elsewhere
+    isDefaultEnabled: false,
+    isElectronApp: app?.isElectronApp ?? false,
+    execName: path.basename(executable),
+  } satisfies AppData;
+}
+
+/**
+ * List the applications installed on Linux from their XDG desktop entries.
+ * Unlike macOS and Windows, every application is listed, not only the ones in
+ * the catalog, so any of them can be picked for monitoring.
+ */
+export async function getInstalledApps(): Promise<AppData[]> {
+  if (process.platform !== "linux") {
+    return [];
+  }
+
+  // An entry in an earlier data dir hides entries with the same id in later ones
+  const desktopFiles = new Map<string, string>();
+  for (const dataDir of getDataDirs()) {
+    const files = await findDesktopFiles(path.join(dataDir, "applications"));
+    for (const { id, filePath } of files) {
+      if (!desktopFiles.has(id)) {
+        desktopFiles.set(id, filePath);
+      }
+    }
+  }
+
+  const apps = (
+    await Promise.all(
+      Array.from(desktopFiles).map(([id, filePath]) =>
+        getAppData(id, filePath),
+      ),
+    )
+  ).filter(Boolean) as AppData[];
+
+  // Several entries can launch the same executable, e.g. a browser and its
+  // private window launcher
+  const appsByPath = new Map<string, AppData>();
+  for (const app of apps) {
+    if (!appsByPath.has(app.path)) {
+      appsByPath.set(app.path, app);
+    }
+  }
+  return Array.from(appsByPath.values());
+}
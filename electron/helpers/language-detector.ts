@@ -0,0 +1,81 @@
+import path from "node:path";
+
+// File extensions mapped to the language names used by WakaTime
+const languagesByExtension: Record<string, string> = {
+  ".c": "C",
+  ".h": "C",
+  ".cc": "C++",
+  ".cpp": "C++",
+  ".cxx": "C++",
+  ".hh": "C++",
+  ".hpp": "C++",
+  ".cs": "C#",
+  ".clj": "Clojure",
+  ".css": "CSS",
+  ".dart": "Dart",
+  ".ex": "Elixir",
+  ".exs": "Elixir",
+  ".el": "Emacs Lisp",
+  ".erl": "Erlang",
+  ".go": "Go",
+  ".gradle": "Groovy",
+  ".groovy": "Groovy",
+  ".hs": "Haskell",
+  ".html": "HTML",
+  ".htm": "HTML",
+  ".java": "Java",
+  ".js": "JavaScript",
+  ".cjs": "JavaScript",
+  ".mjs": "JavaScript",
+  ".jsx": "JavaScript",
+  ".json": "JSON",
+  ".jl": "Julia",
+  ".kt": "Kotlin",
+  ".kts": "Kotlin",
+  ".less": "LESS",
+  ".lua": "Lua",
+  ".md": "Markdown",
+  ".m": "Objective-C",
+  ".mm": "Objective-C++",
+  ".ml": "OCaml",
+  ".pl": "Perl",
+  ".php": "PHP",
+  ".ps1": "PowerShell",
+  ".py": "Python",
+  ".r": "R",
+  ".rb": "Ruby",
+  ".rs": "Rust",
+  ".scala": "Scala",
+  ".scss": "SCSS",
+  ".sh": "Bash",
+  ".bash": "Bash",
+  ".zsh": "Zsh",
+  ".sql": "SQL",
+  ".svelte": "Svelte",
+  ".swift": "Swift",
+  ".tex": "TeX",
+  ".toml": "TOML",
+  ".ts": "TypeScript",
+  ".mts": "TypeScript",
+  ".cts": "TypeScript",
+  ".tsx": "TSX",
+  ".vim": "Vim Script",
+  ".vue": "Vue.js",
+  ".xml": "XML",
+  ".yaml": "YAML",
+  ".yml": "YAML",
+  ".zig": "Zig",
+};
+
+export function languageFromExtension(file: string) {
+  return languagesByExtension[path.extname(file).toLowerCase()] ?? null;
+}
+
+/**
+ * Pick the language for a heartbeat: from the extension of the file being
+ * worked on when known, then the language configured for the program. Null
+ * leaves it to wakatime-cli to detect.
+ */
+export function detectLanguage(file: string | null, override?: string) {
+  return (file && languageFromExtension(file)) || override || null;
+}
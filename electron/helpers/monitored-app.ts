@@ -1,15 +1,4 @@
-// Local WindowInfo interface for compatibility
-interface WindowInfo {
-  url?: string;
-  title: string;
-  info: {
-    name: string;
-    path: string;
-    processId: number;
-  };
-}
-
-import { Category } from "../utils/types";
+import { Category, WindowInfo } from "../utils/types";
 import { AppData } from "../utils/validators";
 import { FilterManager } from "./filter-manager";
 import { PropertiesManager } from "./properties-manager";
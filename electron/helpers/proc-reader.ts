@@ -0,0 +1,166 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import type { RunningProcess } from "./process-monitor";
+
+const PROC_ROOT = "/proc";
+
+// USER_HZ is 100 on every Linux architecture Electron ships for.
+const CLOCK_TICKS_PER_SECOND = 100;
+
+let bootTimeMs: number | null = null;
+
+async function getBootTimeMs() {
+  if (bootTimeMs !== null) {
+    return bootTimeMs;
+  }
+  const stat = await fs.readFile(path.join(PROC_ROOT, "stat"), {
+    encoding: "utf-8",
+  });
+  const match = stat.match(/^btime\s+(\d+)$/m);
+  bootTimeMs = match ? parseInt(match[1]) * 1000 : 0;
+  return bootTimeMs;
+}
+
+async function readOptional(file: string) {
+  try {
+    return await fs.readFile(file, { encoding: "utf-8" });
+  } catch (_error) {
+    return null;
+  }
+}
+
+async function readLinkOptional(file: string) {
+  try {
+    return await fs.readlink(file);
+  } catch (_error) {
+    return null;
+  }
+}
+
+/**
+ * Parse /proc/<pid>/stat. The comm field is wrapped in parentheses and may
+ * itself contain spaces or parentheses, so fields are located relative to the
+ * last closing parenthesis.
+ */
+export function parseStat(contents: string) {
+  const open = contents.indexOf("(");
+  const close = contents.lastIndexOf(")");
+  if (open === -1 || close === -1 || close < open) {
+    return null;
+  }
+  const comm = contents.slice(open + 1, close);
+  // Fields after comm start at field 3 (state).
+  const fields = contents
+    .slice(close + 2)
+    .trim()
+    .split(" ");
+  const ppid = parseInt(fields[1]);
+  const startTicks = parseInt(fields[19]);
+  if (isNaN(ppid) || isNaN(startTicks)) {
+    return null;
+  }
+  return { comm, ppid, startTicks };
+}
+
+export function parseCmdline(contents: string) {
+  const argv = contents.split("\0");
+  // cmdline is NUL-terminated, which leaves an empty trailing element.
+  if (argv.length > 0 && argv[argv.length - 1] === "") {
+    argv.pop();
+  }
+  return argv;
+}
+
+function parseUid(status: string) {
+  const match = status.match(/^Uid:\s+(\d+)/m);
+  return match ? parseInt(match[1]) : null;
+}
+
+/**
+ * Get the cgroup path of a process, which names the sandbox scope for
+ * Flatpak and Snap apps. Prefers the unified (v2) hierarchy.
+ */
+export function parseCgroup(contents: string) {
+  const lines = contents.split("\n");
+  const line =
+    lines.find((entry) => entry.startsWith("0::")) ??
+    lines.find((entry) => entry.includes(":name=systemd:"));
+  return line ? line.slice(line.indexOf(":", line.indexOf(":") + 1) + 1) : null;
+}
+
+// The kernel appends " (deleted)" when the executable was replaced on disk,
+// which happens on every package upgrade of a running program.
+function stripDeletedSuffix(link: string | null) {
+  return link?.replace(/ \(deleted\)$/, "") ?? null;
+}
+
+/**
+ * Identify a file by device and inode, which stays stable across symlinks,
+ * hard links and bind mounts of the same executable.
+ */
+export async function getFileIdentity(file: string) {
+  try {
+    const stat = await fs.stat(file);
+    return `${stat.dev}:${stat.ino}`;
+  } catch (_error) {
+    return null;
+  }
+}
+
+async function readProcess(
+  pid: number,
+  bootTime: number,
+): Promise<RunningProcess | null> {
+  const dir = path.join(PROC_ROOT, `${pid}`);
+  const statContents = await readOptional(path.join(dir, "stat"));
+  if (!statContents) {
+    // The process exited between listing /proc and reading it.
+    return null;
+  }
+  const stat = parseStat(statContents);
+  if (!stat) {
+    return null;
+  }
+
+  const [cmdline, status, exe, exeIdentity, cwd, cgroup] = await Promise.all([
+    readOptional(path.join(dir, "cmdline")),
+    readOptional(path.join(dir, "status")),
+    readLinkOptional(path.join(dir, "exe")),
+    // stat() follows the exe link to the mapped binary, even when deleted
+    getFileIdentity(path.join(dir, "exe")),
+    readLinkOptional(path.join(dir, "cwd")),
+    readOptional(path.join(dir, "cgroup")),
+  ]);
+
+  const argv = cmdline ? parseCmdline(cmdline) : [];
+  const exePath = stripDeletedSuffix(exe);
+
+  return {
+    pid,
+    name: exePath ? path.basename(exePath) : stat.comm,
+    command: argv.length > 0 ? argv.join(" ") : `[${stat.comm}]`,
+    ppid: stat.ppid,
+    uid: status ? parseUid(status) : null,
+    exe: exePath,
+    exeIdentity,
+    argv,
+    startTime: bootTime + (stat.startTicks / CLOCK_TICKS_PER_SECOND) * 1000,
+    cwd: stripDeletedSuffix(cwd),
+    cgroup: cgroup ? parseCgroup(cgroup) : null,
+  };
+}
+
+/**
+ * Read the process table directly from /proc. Fields that need privileges we
+ * don't have (exe and cwd of other users' processes) are left null.
+ */
+export async function readProcTable(): Promise<RunningProcess[]> {
+  const bootTime = await getBootTimeMs();
+  const entries = await fs.readdir(PROC_ROOT);
+  const pids = entries.filter((entry) => /^\d+$/.test(entry)).map(Number);
+  const processes = await Promise.all(
+    pids.map((pid) => readProcess(pid, bootTime)),
+  );
+  return processes.filter((proc): proc is RunningProcess => proc !== null);
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from "vitest";
+
+import type { MatchRule } from "./enrolled-programs-manager";
+import type { RunningProcess } from "./process-monitor";
+import { ProcessMonitor } from "./process-monitor";
+import { ProcessSnapshot } from "./process-snapshot";
+
+vi.mock("electron", () => ({
+  app: { getPath: () => "/home/user" },
+}));
+
+vi.mock("../utils/logging", () => ({
+  Logging: { instance: () => ({ log: () => {} }) },
+  LogLevel: { DEBUG: 0, INFO: 1, WARN: 2, ERROR: 3 },
+}));
+
+function processOf(
+  pid: number,
+  argv: string[],
+  fields: Partial<RunningProcess> = {},
+): RunningProcess {
+  return {
+    pid,
+    ppid: 1,
+    name: argv[0].split("/").pop()!,
+    command: argv.join(" "),
+    exe: argv[0],
+    argv,
+    ...fields,
+  };
+}
+
+const snapshot = new ProcessSnapshot([
+  processOf(1, ["/usr/lib/systemd/systemd"], { ppid: 0 }),
+  processOf(10, ["/usr/bin/python3.12", "-m", "jupyter", "lab"], {
+    cwd: "/home/user/notebooks",
+  }),
+  processOf(11, ["/usr/bin/python3", "manage.py", "runserver"], {
+    cwd: "/home/user/projects/site",
+  }),
+  processOf(20, ["/bin/sh", "/opt/idea/bin/idea.sh"]),
+  processOf(21, ["/opt/idea/jbr/bin/java", "-Xmx2g", "idea.Main"], {
+    ppid: 20,
+  }),
+  processOf(30, ["/usr/bin/node", "server.js"], { cwd: null }),
+]);
+
+async function matchingPids(matchRules: MatchRule[]) {
+  const running =
+    await ProcessMonitor.getInstance().getRunningEnrolledProcesses(
+      [{ path: "/program", matchRules }],
+      snapshot,
+    );
+  return (running.get("/program") ?? []).map((proc) => proc.pid);
+}
+
+describe("ProcessMonitor match rules", () => {
+  it.each<[string, MatchRule, number[]]>([
+    ["versioned interpreter", { interpreter: "python" }, [10, 11]],
+    ["interpreter by path", { interpreter: "/usr/bin/python3" }, [11]],
+    ["arguments", { argsPattern: "-m jupyter" }, [10]],
+    [
+      "arguments and interpreter",
+      { interpreter: "python", argsPattern: "runserver$" },
+      [11],
+    ],
+    ["working directory", { cwdGlob: "~/projects/**" }, [11]],
+    [
+      "working directory alternatives",
+      { cwdGlob: "~/{notebooks,projects/site}" },
+      [10, 11],
+    ],
+    ["parent process", { parentName: "sh" }, [21]],
+    ["parent script name", { parentName: "idea.sh" }, [21]],
+  ])("matches by %s", async (_name, rule, expected) => {
+    expect(await matchingPids([rule])).toEqual(expected);
+  });
+
+  it("requires every condition of a rule", async () => {
+    expect(
+      await matchingPids([{ interpreter: "python", cwdGlob: "/tmp/**" }]),
+    ).toEqual([]);
+  });
+
+  it("matches any of several rules", async () => {
+    expect(
+      await matchingPids([
+        { argsPattern: "jupyter" },
+        { parentName: "idea.sh" },
+      ]),
+    ).toEqual([10, 21]);
+  });
+
+  it("never matches an invalid pattern", async () => {
+    expect(await matchingPids([{ argsPattern: "(" }])).toEqual([]);
+    expect(await matchingPids([{ cwdGlob: "~/{projects" }])).toEqual([]);
+  });
+
+  it("doesn't match a process without a known working directory", async () => {
+    expect(
+      await matchingPids([{ interpreter: "node", cwdGlob: "/**" }]),
+    ).toEqual([]);
+  });
+});
@@ -1,14 +1,60 @@
 import { exec } from 'node:child_process';
 import { promisify } from 'node:util';
+import fs from 'node:fs';
 import path from 'node:path';
+import type { EnrolledProgram, MatchMode, MatchRule } from './enrolled-programs-manager';
+import { globToRegExp, isValidGlob } from '../utils';
 import { Logging, LogLevel } from "../utils/logging";
+import { getFileIdentity, readProcTable } from './proc-reader';
+import { isSandboxedAppProcess, resolveProgramPattern } from './program-pattern';
+import { ProcessSnapshot } from './process-snapshot';
 
 const execAsync = promisify(exec);
 
+// The patterns of a match rule, compiled once. Null when a pattern is set but
+// invalid, so the rule never matches.
+interface CompiledRule {
+  args?: RegExp | null;
+  cwd?: RegExp | null;
+}
+
+const compiledRules = new WeakMap<MatchRule, CompiledRule>();
+
+function compileArgsPattern(argsPattern: string): RegExp | null {
+  try {
+    return new RegExp(argsPattern);
+  } catch (_error) {
+    return null;
+  }
+}
+
+function compileRule(rule: MatchRule): CompiledRule {
+  let compiled = compiledRules.get(rule);
+  if (!compiled) {
+    const { argsPattern, cwdGlob } = rule;
+    compiled = {
+      args: argsPattern ? compileArgsPattern(argsPattern) : undefined,
+      cwd: cwdGlob ? (isValidGlob(cwdGlob) ? globToRegExp(cwdGlob) : null) : undefined,
+    };
+    compiledRules.set(rule, compiled);
+  }
+  return compiled;
+}
+
 export interface RunningProcess {
   pid: number;
   name: string;
   command: string;
+  // The fields below are only populated where the platform exposes them
+  // without shelling out (currently Linux, via /proc)
+  ppid?: number;
+  uid?: number | null;
+  exe?: string | null;
+  exeIdentity?: string | null;
+  argv?: string[];
+  startTime?: number;
+  cwd?: string | null;
+  cgroup?: string | null;
 }
 
 export class ProcessMonitor {
@@ -48,27 +94,11 @@ export class ProcessMonitor {
   }
 
   /**
-   * Get running processes on Linux using ps command
+   * Get running processes on Linux by reading /proc
    */
   private async getLinuxProcesses(): Promise<RunningProcess[]> {
     try {
-      // Use ps to get processes for current user with full command path
-      const { stdout } = await execAsync('ps -eo pid,comm,cmd --no-headers');
-      
-      return stdout
-        .trim()
-        .split('\n')
-        .map(line => {
-          const parts = line.trim().split(/\s+/);
-          if (parts.length < 3) return null;
-          
-          const pid = parseInt(parts[0]);
-          const name = parts[1];
-          const command = parts.slice(2).join(' ');
-          
-          return { pid, name, command };
-        })
-        .filter((proc): proc is RunningProcess => proc !== null);
+      return await readProcTable();
     } catch (error) {
       Logging.instance().log(
         `Failed to get Linux processes: ${error}`,
@@ -84,21 +114,22 @@ export class ProcessMonitor {
    */
   private async getMacProcesses(): Promise<RunningProcess[]> {
     try {
-      const { stdout } = await execAsync('ps -eo pid,comm,command');
+      const { stdout } = await execAsync('ps -eo pid,ppid,comm,command');
       
       return stdout
         .trim()
         .split('\n')
         .slice(1) // Skip header
-        .map(line => {
+        .map((line): RunningProcess | null => {
           const parts = line.trim().split(/\s+/);
-          if (parts.length < 3) return null;
+          if (parts.length < 4) return null;
           
           const pid = parseInt(parts[0]);
-          const name = parts[1];
-          const command = parts.slice(2).join(' ');
+          const ppid = parseInt(parts[1]);
+          const name = parts[2];
+          const command = parts.slice(3).join(' ');
           
-          return { pid, name, command };
+          return { pid, ppid, name, command };
         })
         .filter((proc): proc is RunningProcess => proc !== null);
     } catch (error) {
@@ -143,44 +174,247 @@ export class ProcessMonitor {
   }
 
   /**
-   * Check if a specific executable path is currently running
+   * Take a snapshot of the process table. Consumers that need to check several
+   * programs in the same tick should share one snapshot.
+   */
+  async takeSnapshot(): Promise<ProcessSnapshot> {
+    return new ProcessSnapshot(await this.getRunningProcesses());
+  }
+
+  /**
+   * Find the processes in a snapshot that belong to an executable path.
+   *
+   * Exact matching compares the resolved executable of each process with the
+   * enrolled path, by real path and by inode/device. Fuzzy matching is the
+   * original name and command line heuristic, and is also used on platforms
+   * that don't report resolved executables.
    */
-  async isProcessRunning(executablePath: string): Promise<boolean> {
-    const processes = await this.getRunningProcesses();
+  async findProcesses(
+    executablePath: string,
+    snapshot: ProcessSnapshot,
+    matchMode: MatchMode = 'exact'
+  ): Promise<RunningProcess[]> {
+    if (matchMode === 'exact' && snapshot.hasExecutableIdentity) {
+      return this.findProcessesByIdentity(executablePath, snapshot);
+    }
+    return this.findProcessesFuzzy(executablePath, snapshot);
+  }
+
+  private async findProcessesByIdentity(
+    executablePath: string,
+    snapshot: ProcessSnapshot
+  ): Promise<RunningProcess[]> {
+    let realPath = executablePath;
+    try {
+      realPath = await fs.promises.realpath(executablePath);
+    } catch (_error) {
+      // The enrolled file may have been removed while the old binary still runs
+    }
+
+    const matches = new Set<RunningProcess>(
+      snapshot.findByExePath(realPath).filter(proc => proc.exe === realPath)
+    );
+
+    const identity = await getFileIdentity(realPath);
+    if (identity) {
+      snapshot.findByExeIdentity(identity).forEach(proc => matches.add(proc));
+    }
+
+    return Array.from(matches);
+  }
+
+  private findProcessesFuzzy(executablePath: string, snapshot: ProcessSnapshot): RunningProcess[] {
     const executableName = path.basename(executablePath);
-    
-    return processes.some(proc => {
+    const execNameWithoutExt = executableName.replace(/\.[^/.]+$/, '');
+    const matches = new Set<RunningProcess>(snapshot.findByExePath(executablePath));
+
+    for (const proc of snapshot.findByBasename(executableName)) {
       // Check if the process name matches the executable name
       if (proc.name === executableName) {
-        return true;
+        matches.add(proc);
+        continue;
       }
-      
-      // Also check if the full command path contains the executable path
-      if (proc.command.includes(executablePath)) {
-        return true;
-      }
-      
+
       // For cases where the executable name might have extensions removed/added
       const procNameWithoutExt = proc.name.replace(/\.[^/.]+$/, '');
-      const execNameWithoutExt = executableName.replace(/\.[^/.]+$/, '');
-      
-      return procNameWithoutExt === execNameWithoutExt;
+      if (procNameWithoutExt === execNameWithoutExt) {
+        matches.add(proc);
+      }
+    }
+
+    // Also check if the full command path contains the executable path
+    for (const proc of snapshot.processes) {
+      if (proc.command.includes(executablePath)) {
+        matches.add(proc);
+      }
+    }
+
+    return Array.from(matches);
+  }
+
+  /**
+   * Find the processes in a snapshot that an enrolled program runs itself. A
+   * program with match rules is matched by its rules only, since its path is
+   * usually a shared interpreter or a wrapper script. A program enrolled by
+   * pattern matches the processes of every executable the pattern currently
+   * resolves to, or those running in its Flatpak or Snap sandbox.
+   */
+  private async matchProgramProcesses(
+    program: Pick<EnrolledProgram, 'path' | 'matchMode' | 'matchRules' | 'pattern'>,
+    snapshot: ProcessSnapshot
+  ): Promise<RunningProcess[]> {
+    const rules = (program.matchRules ?? []).filter(rule => this.isRuleConfigured(rule));
+    if (rules.length > 0) {
+      return snapshot.processes.filter(proc => rules.some(rule => this.matchesRule(proc, rule, snapshot)));
+    }
+
+    const pattern = program.pattern;
+    if (!pattern) {
+      return this.findProcesses(program.path, snapshot, program.matchMode ?? 'exact');
+    }
+
+    if (pattern.type === 'flatpak' || pattern.type === 'snap') {
+      return snapshot.processes.filter(proc => isSandboxedAppProcess(proc, pattern));
+    }
+
+    const executablePaths = await resolveProgramPattern(pattern);
+    const matches = new Set<RunningProcess>(this.findScriptProcesses(executablePaths, snapshot));
+    for (const executablePath of executablePaths) {
+      const processes = await this.findProcesses(executablePath, snapshot, program.matchMode ?? 'exact');
+      processes.forEach(proc => matches.add(proc));
+    }
+    return Array.from(matches);
+  }
+
+  /**
+   * Find processes running one of the given files as a script, like
+   * `bash run.sh` or `python tool.py`. Their executable is the interpreter,
+   * so they aren't found by it.
+   */
+  private findScriptProcesses(scriptPaths: string[], snapshot: ProcessSnapshot): RunningProcess[] {
+    const scripts = new Set(scriptPaths);
+    if (scripts.size === 0) {
+      return [];
+    }
+    return snapshot.processes.filter(proc => {
+      const script = proc.argv?.[1];
+      if (!script || !(path.isAbsolute(script) || proc.cwd)) {
+        return false;
+      }
+      return scripts.has(path.resolve(proc.cwd ?? '/', script));
     });
   }
 
+  private isRuleConfigured(rule: MatchRule): boolean {
+    return !!(rule.interpreter || rule.argsPattern || rule.cwdGlob || rule.parentName);
+  }
+
   /**
-   * Get list of enrolled programs that are currently running
+   * Check a process against a match rule. Every condition set on the rule must hold.
    */
-  async getRunningEnrolledPrograms(enrolledPaths: string[]): Promise<string[]> {
-    const runningPrograms: string[] = [];
-    
-    for (const programPath of enrolledPaths) {
-      const isRunning = await this.isProcessRunning(programPath);
-      if (isRunning) {
-        runningPrograms.push(programPath);
+  private matchesRule(proc: RunningProcess, rule: MatchRule, snapshot: ProcessSnapshot): boolean {
+    if (rule.interpreter && !this.matchesInterpreter(proc, rule.interpreter)) {
+      return false;
+    }
+
+    const compiled = compileRule(rule);
+    if (compiled.args !== undefined) {
+      // Without argv the command line is the best approximation of the arguments
+      const args = proc.argv ? proc.argv.slice(1).join(' ') : proc.command;
+      if (!compiled.args?.test(args)) {
+        return false;
       }
     }
-    
-    return runningPrograms;
+
+    if (compiled.cwd !== undefined && !(proc.cwd && compiled.cwd?.test(proc.cwd))) {
+      return false;
+    }
+
+    if (rule.parentName) {
+      const parent = proc.ppid !== undefined ? snapshot.getProcess(proc.ppid) : null;
+      if (!parent || !this.getProcessNames(parent).includes(rule.parentName)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private matchesInterpreter(proc: RunningProcess, interpreter: string): boolean {
+    if (interpreter.includes(path.sep)) {
+      return proc.exe === interpreter || proc.argv?.[0] === interpreter;
+    }
+
+    // Allow versioned interpreters, so `python` matches `python3.12`
+    const escaped = interpreter.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const versioned = new RegExp(`^${escaped}[\\d.]*$`);
+    const names = [proc.name, proc.exe, proc.argv?.[0]]
+      .filter((name): name is string => !!name)
+      .map(name => path.basename(name));
+    return names.some(name => versioned.test(name));
+  }
+
+  /**
+   * Names a process is known by: its executable, and for interpreted programs
+   * and shell wrappers also the script being run
+   */
+  private getProcessNames(proc: RunningProcess): string[] {
+    return [proc.name, proc.argv?.[0], proc.argv?.[1]]
+      .filter((name): name is string => !!name)
+      .map(name => path.basename(name));
+  }
+
+  /**
+   * Check if a specific executable path is currently running
+   */
+  async isProcessRunning(
+    executablePath: string,
+    snapshot?: ProcessSnapshot,
+    matchMode: MatchMode = 'exact'
+  ): Promise<boolean> {
+    snapshot = snapshot ?? await this.takeSnapshot();
+    return (await this.findProcesses(executablePath, snapshot, matchMode)).length > 0;
+  }
+
+  /**
+   * Get the processes of each enrolled program that is currently running, keyed by program path.
+   *
+   * The processes a program started, like renderers, language servers or the
+   * shell in a terminal, belong to it as well and follow the matched ones.
+   * Processes of another enrolled program aren't included, along with what
+   * they started, so an IDE launched from a terminal is tracked as the IDE.
+   */
+  async getRunningEnrolledProcesses(
+    programs: Pick<EnrolledProgram, 'path' | 'matchMode' | 'matchRules' | 'pattern'>[],
+    snapshot?: ProcessSnapshot
+  ): Promise<Map<string, RunningProcess[]>> {
+    snapshot = snapshot ?? await this.takeSnapshot();
+
+    const matchedProcesses = new Map<string, RunningProcess[]>();
+    for (const program of programs) {
+      const matches = await this.matchProgramProcesses(program, snapshot);
+      if (matches.length > 0) {
+        matchedProcesses.set(program.path, matches);
+      }
+    }
+
+    const enrolledPids = new Set(Array.from(matchedProcesses.values()).flat().map(proc => proc.pid));
+    const runningProcesses = new Map<string, RunningProcess[]>();
+    for (const [programPath, matches] of matchedProcesses) {
+      const matchedPids = new Set(matches.map(proc => proc.pid));
+      runningProcesses.set(programPath, [...matches, ...snapshot.getDescendants(matchedPids, enrolledPids)]);
+    }
+
+    return runningProcesses;
+  }
+
+  /**
+   * Get list of enrolled programs that are currently running
+   */
+  async getRunningEnrolledPrograms(
+    programs: Pick<EnrolledProgram, 'path' | 'matchMode' | 'matchRules' | 'pattern'>[],
+    snapshot?: ProcessSnapshot
+  ): Promise<string[]> {
+    return Array.from((await this.getRunningEnrolledProcesses(programs, snapshot)).keys());
   }
 } 
\ No newline at end of file
@@ -0,0 +1,141 @@
+import path from "node:path";
+
+import type { RunningProcess } from "./process-monitor";
+
+function withoutExtension(name: string) {
+  return name.replace(/\.[^/.]+$/, "");
+}
+
+function addToIndex<K>(
+  index: Map<K, RunningProcess[]>,
+  key: K,
+  proc: RunningProcess,
+) {
+  const entries = index.get(key);
+  if (!entries) {
+    index.set(key, [proc]);
+  } else if (!entries.includes(proc)) {
+    entries.push(proc);
+  }
+}
+
+/**
+ * An immutable view of the process table taken at a single point in time,
+ * indexed so that looking up many enrolled programs doesn't require
+ * rescanning the whole table for each one.
+ */
+export class ProcessSnapshot {
+  readonly takenAt: number;
+  readonly processes: readonly RunningProcess[];
+  private byPid = new Map<number, RunningProcess>();
+  private byParentPid = new Map<number, RunningProcess[]>();
+  private byExePath = new Map<string, RunningProcess[]>();
+  private byBasename = new Map<string, RunningProcess[]>();
+  private byExeIdentity = new Map<string, RunningProcess[]>();
+
+  constructor(processes: RunningProcess[], takenAt = Date.now()) {
+    this.processes = processes;
+    this.takenAt = takenAt;
+
+    for (const proc of processes) {
+      this.byPid.set(proc.pid, proc);
+
+      if (proc.ppid !== undefined) {
+        addToIndex(this.byParentPid, proc.ppid, proc);
+      }
+
+      if (proc.exeIdentity) {
+        addToIndex(this.byExeIdentity, proc.exeIdentity, proc);
+      }
+
+      const exePaths = [proc.exe, proc.argv?.[0]].filter(
+        (value): value is string => !!value,
+      );
+      for (const exePath of exePaths) {
+        addToIndex(this.byExePath, exePath, proc);
+      }
+
+      // Basenames are indexed without their extension so that `foo` and
+      // `foo.exe` land in the same bucket; callers do the final comparison.
+      const basenames = [proc.name, ...exePaths.map((p) => path.basename(p))];
+      for (const basename of basenames) {
+        addToIndex(this.byBasename, withoutExtension(basename), proc);
+      }
+    }
+  }
+
+  get size() {
+    return this.processes.length;
+  }
+
+  /**
+   * Whether the platform reported resolved executables for this snapshot.
+   * Without them only fuzzy matching by name and command line is possible.
+   */
+  get hasExecutableIdentity() {
+    return this.processes.some((proc) => proc.exe !== undefined);
+  }
+
+  getProcess(pid: number) {
+    return this.byPid.get(pid) ?? null;
+  }
+
+  /**
+   * Walk up the parent chain of a process, nearest parent first
+   */
+  getAncestors(pid: number): RunningProcess[] {
+    const ancestors: RunningProcess[] = [];
+    const visited = new Set<number>([pid]);
+    let parentPid = this.byPid.get(pid)?.ppid;
+    while (parentPid !== undefined && !visited.has(parentPid)) {
+      const parent = this.byPid.get(parentPid);
+      if (!parent) {
+        break;
+      }
+      ancestors.push(parent);
+      visited.add(parentPid);
+      parentPid = parent.ppid;
+    }
+    return ancestors;
+  }
+
+  getChildren(pid: number): readonly RunningProcess[] {
+    return this.byParentPid.get(pid) ?? [];
+  }
+
+  /**
+   * Collect every process started under the given ones, breadth first so
+   * direct children come before their own children. Excluded processes are
+   * left out together with everything started under them.
+   */
+  getDescendants(
+    pids: Iterable<number>,
+    exclude: Set<number> = new Set(),
+  ): RunningProcess[] {
+    const descendants: RunningProcess[] = [];
+    const visited = new Set<number>(pids);
+    const queue = Array.from(visited);
+    while (queue.length > 0) {
+      for (const child of this.getChildren(queue.shift()!)) {
+        if (!visited.has(child.pid) && !exclude.has(child.pid)) {
+          visited.add(child.pid);
+          descendants.push(child);
+          queue.push(child.pid);
+        }
+      }
+    }
+    return descendants;
+  }
+
+  findByExePath(exePath: string): readonly RunningProcess[] {
+    return this.byExePath.get(exePath) ?? [];
+  }
+
+  findByExeIdentity(identity: string): readonly RunningProcess[] {
+    return this.byExeIdentity.get(identity) ?? [];
+  }
+
+  findByBasename(basename: string): readonly RunningProcess[] {
+    return this.byBasename.get(withoutExtension(basename)) ?? [];
+  }
+}
@@ -0,0 +1,232 @@
+import fs from "node:fs";
+import path from "node:path";
+import { app } from "electron";
+import { z } from "zod";
+
+import { expandHomeDir } from "../utils";
+import { Logging, LogLevel } from "../utils/logging";
+import {
+  enrolledProgramSettingsSchema,
+  EnrolledProgramsManager,
+  programPatternSchema,
+} from "./enrolled-programs-manager";
+import { patternKey } from "./program-pattern";
+import { PropertiesManager } from "./properties-manager";
+
+const PROFILE_VERSION = 1;
+
+const profileProgramSchema = enrolledProgramSettingsSchema
+  .extend({
+    name: z.string(),
+    path: z.string(),
+    pattern: programPatternSchema.optional(),
+  })
+  .strip();
+
+const profileSchema = z.object({
+  version: z.literal(PROFILE_VERSION),
+  exportedAt: z.string(),
+  programs: z.array(profileProgramSchema),
+  filters: z
+    .object({
+      filterType: z.enum(["denylist", "allowlist"]),
+      denylist: z.string(),
+      allowlist: z.string(),
+      entityExcludeGlobs: z.string(),
+    })
+    .optional(),
+});
+
+export type Profile = z.infer<typeof profileSchema>;
+
+export interface ProfileImportEntry {
+  name: string;
+  path: string;
+  // Where the program was found on this machine, or null when it wasn't
+  resolvedPath: string | null;
+  alreadyEnrolled: boolean;
+}
+
+export interface ProfileImportPreview {
+  entries: ProfileImportEntry[];
+  hasFilters: boolean;
+}
+
+/**
+ * Replace the home directory with `$HOME`, so the path works for other users
+ */
+function toPortablePath(programPath: string) {
+  const home = app.getPath("home");
+  if (programPath === home || programPath.startsWith(home + path.sep)) {
+    return "$HOME" + programPath.slice(home.length);
+  }
+  return programPath;
+}
+
+/**
+ * Expand `~`, `$HOME` and other environment variables written as `$NAME` or
+ * `${NAME}`. Unknown variables are left as they are.
+ */
+function expandPortablePath(programPath: string) {
+  return expandHomeDir(programPath).replace(
+    /\$(?:\{(\w+)\}|(\w+))/g,
+    (match, braced: string | undefined, bare: string | undefined) => {
+      const name = braced ?? bare ?? "";
+      if (name === "HOME") {
+        return app.getPath("home");
+      }
+      return process.env[name] ?? match;
+    },
+  );
+}
+
+/**
+ * Look for an executable with the same file name in the directories on PATH
+ */
+function findInPath(programPath: string) {
+  const fileName = path.basename(programPath);
+  const directories = (process.env.PATH ?? "").split(path.delimiter);
+  for (const directory of directories) {
+    if (!directory) {
+      continue;
+    }
+    const candidate = path.join(directory, fileName);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+// Patterns are resolved on every scan, so they are imported as they are
+function resolveProgramPath(program: Profile["programs"][number]) {
+  if (program.pattern) {
+    return patternKey(program.pattern);
+  }
+  const expanded = expandPortablePath(program.path);
+  if (fs.existsSync(expanded)) {
+    return expanded;
+  }
+  return findInPath(expanded);
+}
+
+/**
+ * Exports enrolled programs, their settings and the filter lists to a JSON
+ * profile that can be imported on another machine.
+ */
+export abstract class ProfileManager {
+  static createProfile(): Profile {
+    const programs = EnrolledProgramsManager.getInstance()
+      .getAllPrograms()
+      .map((program) => ({
+        ...enrolledProgramSettingsSchema.strip().parse(program),
+        name: program.name,
+        path: program.pattern ? program.path : toPortablePath(program.path),
+        pattern: program.pattern,
+      }));
+
+    return {
+      version: PROFILE_VERSION,
+      exportedAt: new Date().toISOString(),
+      programs,
+      filters: {
+        filterType: PropertiesManager.filterType,
+        denylist: PropertiesManager.denylist,
+        allowlist: PropertiesManager.allowlist,
+        entityExcludeGlobs: PropertiesManager.entityExcludeGlobs,
+      },
+    };
+  }
+
+  // A plain write, since an atomic one would leave a backup next to the
+  // user's file
+  static exportProfile(filePath: string) {
+    fs.writeFileSync(filePath, JSON.stringify(this.createProfile(), null, 2), {
+      encoding: "utf-8",
+    });
+    Logging.instance().log(`Exported profile to ${filePath}`, LogLevel.INFO);
+  }
+
+  static readProfile(filePath: string): Profile {
+    const contents = fs.readFileSync(filePath, { encoding: "utf-8" });
+    return profileSchema.parse(JSON.parse(contents));
+  }
+
+  /**
+   * Show which programs in a profile can be found on this machine
+   */
+  static previewImport(profile: Profile): ProfileImportPreview {
+    const enrolledManager = EnrolledProgramsManager.getInstance();
+    const entries = profile.programs.map((program) => {
+      const resolvedPath = resolveProgramPath(program);
+      return {
+        name: program.displayName || program.name,
+        path: program.path,
+        resolvedPath,
+        alreadyEnrolled:
+          !!resolvedPath && enrolledManager.isProgramEnrolled(resolvedPath),
+      };
+    });
+    return { entries, hasFilters: !!profile.filters };
+  }
+
+  /**
+   * Enroll the programs in a profile that can be found on this machine and
+   * aren't enrolled yet, optionally replacing the filter lists too. Every
+   * program's settings are checked before any is enrolled, so an invalid
+   * profile imports nothing. Returns the number of programs enrolled.
+   */
+  static importProfile(profile: Profile, includeFilters: boolean) {
+    const enrolledManager = EnrolledProgramsManager.getInstance();
+    let imported = 0;
+
+    const programs = profile.programs.map((program, index) => {
+      const {
+        name: _name,
+        path: _path,
+        pattern: _pattern,
+        ...settings
+      } = program;
+      const parsed = enrolledProgramSettingsSchema.safeParse(settings);
+      if (!parsed.success) {
+        throw new Error(
+          `Invalid settings for program ${index + 1} in profile: ${parsed.error.message}`,
+        );
+      }
+      return { program, settings: parsed.data };
+    });
+
+    for (const { program, settings } of programs) {
+      const resolvedPath = resolveProgramPath(program);
+      if (!resolvedPath || enrolledManager.isProgramEnrolled(resolvedPath)) {
+        continue;
+      }
+
+      const enrolled = program.pattern
+        ? enrolledManager.enrollPattern(program.pattern)
+        : enrolledManager.enrollProgram(resolvedPath);
+      if (!enrolled) {
+        continue;
+      }
+      // Don't leave the program behind without its settings
+      if (!enrolledManager.updateProgram(enrolled.id, settings)) {
+        enrolledManager.removeProgram(enrolled.id);
+        continue;
+      }
+      imported++;
+    }
+
+    if (includeFilters && profile.filters) {
+      PropertiesManager.filterType = profile.filters.filterType;
+      PropertiesManager.denylist = profile.filters.denylist;
+      PropertiesManager.allowlist = profile.filters.allowlist;
+      PropertiesManager.entityExcludeGlobs = profile.filters.entityExcludeGlobs;
+    }
+
+    Logging.instance().log(
+      `Imported ${imported} of ${profile.programs.length} programs from profile`,
+      LogLevel.INFO,
+    );
+    return imported;
+  }
+}
@@ -0,0 +1,210 @@
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+
+import type { EnrollableApp } from "./enrollable-apps";
+import type { ProcessSnapshot } from "./process-snapshot";
+import { getWakatimeAppDataFolderPath } from "../utils";
+import { Logging, LogLevel } from "../utils/logging";
+import { getInstalledAppIndex, getRunningApps } from "./enrollable-apps";
+import {
+  EnrolledProgramsManager,
+  programPatternSchema,
+} from "./enrolled-programs-manager";
+import { Migrations, VersionedFile } from "./versioned-file";
+
+export interface ProgramSuggestion extends EnrollableApp {
+  // Seconds the program was seen running over the past week
+  seconds: number;
+}
+
+const candidateSchema = z.object({
+  name: z.string(),
+  path: z.string(),
+  pattern: programPatternSchema.nullable(),
+  // Seconds seen running, keyed by local date
+  days: z.record(z.string(), z.number()),
+});
+
+const discoverySchema = z.object({
+  candidates: z.array(candidateSchema),
+});
+
+type Candidate = z.infer<typeof candidateSchema>;
+
+const PROGRAM_DISCOVERY_VERSION = 1;
+const HISTORY_DAYS = 7;
+// Programs seen for less than this are too rare to be worth suggesting
+const MIN_SUGGESTION_SECONDS = 30 * 60;
+const SAVE_DELAY_MS = 5 * 60 * 1000;
+
+const programDiscoveryMigrations: Migrations = {};
+
+function toDay(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Keeps a local, week long history of how long programs that aren't enrolled
+ * were running, to suggest the ones used most for enrollment. Only GUI apps
+ * are counted, told apart by having a desktop entry or running as a Flatpak or
+ * Snap, which leaves out system daemons, shells and helper processes. Nothing
+ * is recorded unless discovery is turned on, and the history is deleted when
+ * it's turned off.
+ */
+export class ProgramDiscovery {
+  private static instance: ProgramDiscovery;
+  private dataFile: VersionedFile<z.infer<typeof discoverySchema>>;
+  private candidates = new Map<string, Candidate>();
+  private saveTimeout: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.dataFile = new VersionedFile(
+      path.join(getWakatimeAppDataFolderPath(), "program-discovery.json"),
+      {
+        version: PROGRAM_DISCOVERY_VERSION,
+        schema: discoverySchema,
+        migrations: programDiscoveryMigrations,
+      },
+    );
+    for (const candidate of this.dataFile.load()?.candidates ?? []) {
+      this.candidates.set(candidate.path, candidate);
+    }
+    this.prune();
+  }
+
+  static getInstance(): ProgramDiscovery {
+    if (!ProgramDiscovery.instance) {
+      ProgramDiscovery.instance = new ProgramDiscovery();
+    }
+    return ProgramDiscovery.instance;
+  }
+
+  /**
+   * Add the time since the previous scan to every unenrolled GUI app running
+   * in a snapshot. Callers check that discovery is turned on.
+   */
+  record(snapshot: ProcessSnapshot, seconds: number) {
+    const enrolledManager = EnrolledProgramsManager.getInstance();
+    const day = toDay(new Date(snapshot.takenAt));
+
+    for (const app of getRunningApps(snapshot)) {
+      if (enrolledManager.isProgramEnrolled(app.path)) {
+        continue;
+      }
+
+      const days = this.candidates.get(app.path)?.days ?? {};
+      days[day] = (days[day] ?? 0) + seconds;
+      // The name and pattern follow the latest sighting, in case the app was
+      // renamed or installed since it was first seen
+      this.candidates.set(app.path, {
+        name: app.name,
+        path: app.path,
+        pattern: app.pattern,
+        days,
+      });
+    }
+
+    this.prune();
+    this.scheduleSave();
+  }
+
+  /**
+   * The unenrolled programs that ran the longest over the past week
+   */
+  getSuggestions(limit = 5): ProgramSuggestion[] {
+    const enrolledManager = EnrolledProgramsManager.getInstance();
+    const installedApps = getInstalledAppIndex();
+    return Array.from(this.candidates.values())
+      .filter((candidate) => !enrolledManager.isProgramEnrolled(candidate.path))
+      .map((candidate) => ({
+        name: candidate.name,
+        path: candidate.path,
+        icon: installedApps.get(candidate.path)?.icon ?? null,
+        pattern: candidate.pattern,
+        seconds: Object.values(candidate.days).reduce(
+          (total, seconds) => total + seconds,
+          0,
+        ),
+      }))
+      .filter((suggestion) => suggestion.seconds >= MIN_SUGGESTION_SECONDS)
+      .sort((a, b) => b.seconds - a.seconds)
+      .slice(0, limit);
+  }
+
+  /**
+   * Delete the recorded history, e.g. when discovery is turned off
+   */
+  clear() {
+    this.candidates.clear();
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+      this.saveTimeout = null;
+    }
+    try {
+      fs.rmSync(this.dataFile.filePath, { force: true });
+      fs.rmSync(`${this.dataFile.filePath}.bak`, { force: true });
+    } catch (error) {
+      Logging.instance().log(
+        `Failed to delete program discovery history: ${error}`,
+        LogLevel.ERROR,
+        true,
+      );
+    }
+  }
+
+  /**
+   * Write any changes that are waiting to be saved
+   */
+  flush() {
+    if (this.saveTimeout) {
+      this.save();
+    }
+  }
+
+  // Drop days that fell out of the history, and programs with none left
+  private prune() {
+    const oldest = new Date();
+    oldest.setDate(oldest.getDate() - (HISTORY_DAYS - 1));
+    const oldestDay = toDay(oldest);
+
+    for (const [key, candidate] of this.candidates) {
+      for (const day of Object.keys(candidate.days)) {
+        if (day < oldestDay) {
+          delete candidate.days[day];
+        }
+      }
+      if (Object.keys(candidate.days).length === 0) {
+        this.candidates.delete(key);
+      }
+    }
+  }
+
+  private save() {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+      this.saveTimeout = null;
+    }
+    try {
+      this.dataFile.save({ candidates: Array.from(this.candidates.values()) });
+    } catch (error) {
+      Logging.instance().log(
+        `Failed to save program discovery history: ${error}`,
+        LogLevel.ERROR,
+        true,
+      );
+    }
+  }
+
+  // Scans happen every minute, so batch them into an occasional write
+  private scheduleSave() {
+    if (!this.saveTimeout) {
+      this.saveTimeout = setTimeout(() => {
+        this.saveTimeout = null;
+        this.save();
+      }, SAVE_DELAY_MS);
+    }
+  }
+}
@@ -0,0 +1,216 @@
+import fs from "node:fs";
+import path from "node:path";
+import { app } from "electron";
+
+import type { RunningProcess } from "./process-monitor";
+import { expandHomeDir, globToRegExp } from "../utils";
+
+/**
+ * What a pattern-enrolled program matches, instead of a single path:
+ * - glob: executables matching a path glob, e.g. every installed IDE version
+ * - execName: executables with this name in any PATH directory
+ * - flatpak: processes running in the sandbox of a Flatpak app id
+ * - snap: processes of a Snap package
+ */
+export type ProgramPatternType = "glob" | "execName" | "flatpak" | "snap";
+
+export interface ProgramPattern {
+  type: ProgramPatternType;
+  value: string;
+}
+
+// Bounds the directory walk for globs like `/opt/**/bin/*`
+const MAX_GLOB_ENTRIES = 10000;
+// Shorter than a scan, so each scan resolves a pattern once and the status
+// and icons shown in between reuse what it found
+const RESOLVED_PATTERN_TTL_MS = 30 * 1000;
+
+const resolvedPatterns = new Map<
+  string,
+  { executables: string[]; resolvedAt: number }
+>();
+const pendingPatterns = new Map<string, Promise<string[]>>();
+
+/**
+ * Key that identifies a pattern program in place of its path
+ */
+export function patternKey(pattern: ProgramPattern) {
+  return `${pattern.type}:${pattern.value}`;
+}
+
+// The part of the glob before the first wildcard, where the walk starts
+function globBase(glob: string) {
+  const segments = glob.split("/");
+  const index = segments.findIndex((segment) => /[*?{]/.test(segment));
+  if (index === -1) {
+    return glob;
+  }
+  return segments.slice(0, index).join("/") || "/";
+}
+
+async function expandGlob(glob: string) {
+  const expanded = expandHomeDir(glob);
+  const pattern = globToRegExp(expanded);
+  const base = globBase(expanded);
+  // Without `**` a match can't be deeper than the glob has segments
+  const maxDepth = expanded.includes("**")
+    ? Infinity
+    : expanded.split("/").length - base.split("/").length;
+
+  const matches: string[] = [];
+  const queue: { directory: string; depth: number }[] = [
+    { directory: base, depth: 0 },
+  ];
+  let visited = 0;
+  while (queue.length > 0 && visited < MAX_GLOB_ENTRIES) {
+    const { directory, depth } = queue.shift()!;
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(directory, { withFileTypes: true });
+    } catch (_error) {
+      continue;
+    }
+
+    for (const entry of entries) {
+      visited++;
+      const entryPath = path.join(directory, entry.name);
+      if (!entry.isDirectory() && pattern.test(entryPath)) {
+        matches.push(entryPath);
+      }
+      if (entry.isDirectory() && depth + 1 < maxDepth) {
+        queue.push({ directory: entryPath, depth: depth + 1 });
+      }
+    }
+  }
+  return matches;
+}
+
+function findExecutablesInPath(name: string) {
+  const directories = (process.env.PATH ?? "").split(path.delimiter);
+  const matches = new Set<string>();
+  for (const directory of directories) {
+    const candidate = directory && path.join(directory, name);
+    if (candidate && fs.existsSync(candidate)) {
+      matches.add(candidate);
+    }
+  }
+  return Array.from(matches);
+}
+
+// Launchers exported by installed apps, used to tell whether one is installed
+function sandboxLaunchers(pattern: ProgramPattern) {
+  if (pattern.type === "flatpak") {
+    return [
+      path.join("/var/lib/flatpak/exports/bin", pattern.value),
+      path.join(
+        app.getPath("home"),
+        ".local/share/flatpak/exports/bin",
+        pattern.value,
+      ),
+    ];
+  }
+  return [path.join("/snap/bin", pattern.value)];
+}
+
+async function resolveUncached(pattern: ProgramPattern): Promise<string[]> {
+  switch (pattern.type) {
+    case "glob":
+      return expandGlob(pattern.value);
+    case "execName":
+      return findExecutablesInPath(pattern.value);
+    case "flatpak":
+    case "snap":
+      return sandboxLaunchers(pattern).filter((launcher) =>
+        fs.existsSync(launcher),
+      );
+  }
+}
+
+/**
+ * Find the executables a pattern currently refers to. Evaluated again on each
+ * scan, so newly installed versions are picked up without re-enrolling.
+ */
+export async function resolveProgramPattern(
+  pattern: ProgramPattern,
+): Promise<string[]> {
+  const key = patternKey(pattern);
+  const resolved = resolvedPatterns.get(key);
+  if (resolved && Date.now() - resolved.resolvedAt < RESOLVED_PATTERN_TTL_MS) {
+    return resolved.executables;
+  }
+
+  let pending = pendingPatterns.get(key);
+  if (!pending) {
+    pending = resolveUncached(pattern)
+      .then((executables) => {
+        resolvedPatterns.set(key, { executables, resolvedAt: Date.now() });
+        return executables;
+      })
+      .finally(() => pendingPatterns.delete(key));
+    pendingPatterns.set(key, pending);
+  }
+  return pending;
+}
+
+/**
+ * The executables a pattern resolved to the last time, or null when it
+ * hasn't been resolved yet
+ */
+export function getResolvedProgramPattern(pattern: ProgramPattern) {
+  return resolvedPatterns.get(patternKey(pattern))?.executables ?? null;
+}
+
+/**
+ * Check whether a process runs inside a Flatpak or Snap app. Sandboxed apps
+ * are told apart by the systemd scope they are started in, since their
+ * executables live inside the sandbox.
+ */
+export function isSandboxedAppProcess(
+  proc: RunningProcess,
+  pattern: ProgramPattern,
+) {
+  if (pattern.type === "flatpak") {
+    return !!proc.cgroup?.includes(`app-flatpak-${pattern.value}-`);
+  }
+  if (pattern.type === "snap") {
+    return (
+      !!proc.cgroup?.includes(`snap.${pattern.value}.`) ||
+      !!proc.exe?.startsWith(`/snap/${pattern.value}/`)
+    );
+  }
+  return false;
+}
+
+/**
+ * The pattern to enroll instead of an executable that only launches a Flatpak
+ * or Snap app, since the processes it starts run a different executable
+ */
+export function patternForExecutable(
+  executablePath: string,
+): ProgramPattern | null {
+  if (executablePath.includes("/flatpak/exports/bin/")) {
+    return { type: "flatpak", value: path.basename(executablePath) };
+  }
+  if (executablePath.startsWith("/snap/bin/")) {
+    return { type: "snap", value: path.basename(executablePath) };
+  }
+  return null;
+}
+
+/**
+ * The pattern matching a running Flatpak or Snap process, read from the
+ * systemd scope it was started in or from where its executable is mounted
+ */
+export function patternForProcess(proc: RunningProcess): ProgramPattern | null {
+  const flatpakId = proc.cgroup?.match(/app-flatpak-([^/]+?)-\d+\.scope/)?.[1];
+  if (flatpakId) {
+    return { type: "flatpak", value: flatpakId };
+  }
+  const snapName =
+    proc.cgroup?.match(/snap\.([^./]+)\./)?.[1] ??
+    proc.exe?.match(/^\/snap\/([^/]+)\//)?.[1];
+  if (snapName) {
+    return { type: "snap", value: snapName };
+  }
+  return null;
+}
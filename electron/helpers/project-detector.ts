@@ -0,0 +1,68 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import { Logging, LogLevel } from "../utils/logging";
+
+const PROJECT_FILE = ".wakatime-project";
+const REPOSITORY_MARKERS = [".git", ".hg"];
+
+export interface DetectedProject {
+  name: string;
+  root: string;
+}
+
+async function exists(file: string) {
+  try {
+    await fs.access(file);
+    return true;
+  } catch (_error) {
+    return false;
+  }
+}
+
+/**
+ * Read the project name from a .wakatime-project file, whose first line names
+ * the project. An empty file means the folder containing it is the project.
+ */
+async function readProjectFile(file: string) {
+  try {
+    const contents = await fs.readFile(file, { encoding: "utf-8" });
+    const name = contents.split(/\r?\n/)[0].trim();
+    return name || path.basename(path.dirname(file));
+  } catch (error) {
+    Logging.instance().log(`Failed to read ${file}: ${error}`, LogLevel.WARN);
+    return null;
+  }
+}
+
+/**
+ * Find the project a directory belongs to by walking up to the nearest
+ * .wakatime-project file or repository root. Returns null when the directory
+ * isn't inside a project.
+ */
+export async function detectProject(
+  directory: string,
+): Promise<DetectedProject | null> {
+  let current = path.resolve(directory);
+  while (true) {
+    const projectFile = path.join(current, PROJECT_FILE);
+    if (await exists(projectFile)) {
+      const name = await readProjectFile(projectFile);
+      if (name) {
+        return { name, root: current };
+      }
+    }
+
+    for (const marker of REPOSITORY_MARKERS) {
+      if (await exists(path.join(current, marker))) {
+        return { name: path.basename(current), root: current };
+      }
+    }
+
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return null;
+    }
+    current = parent;
+  }
+}
@@ -1,4 +1,8 @@
-import type { DomainPreferenceType, FilterType } from "../utils/constants";
+import type {
+  ActivitySourceType,
+  DomainPreferenceType,
+  FilterType,
+} from "../utils/constants";
 import { getDesktopWakaTimeConfigFilePath } from "../utils";
 import { Logging } from "../utils/logging";
 import { ConfigFileReader } from "./config-file-reader";
@@ -15,6 +19,11 @@ const Keys = {
   allowlist: "allowlist",
   autoUpdateEnabled: "auto_update_enabled",
   codeTimeInStatusBar: "code_time_in_status_bar",
+  activitySource: "activity_source",
+  idleThreshold: "idle_threshold",
+  resolveFileEntities: "resolve_file_entities",
+  entityExcludeGlobs: "entity_exclude_globs",
+  programDiscovery: "program_discovery",
 };
 
 export class PropertiesManager {
@@ -286,6 +295,124 @@ export class PropertiesManager {
     );
   }
 
+  static get activitySource(): ActivitySourceType | null {
+    const file = getDesktopWakaTimeConfigFilePath();
+    const value = ConfigFileReader.get(file, "properties", Keys.activitySource);
+    return value === "process" || value === "focused_window" ? value : null;
+  }
+  static set activitySource(value: ActivitySourceType) {
+    ConfigFileReader.set(
+      getDesktopWakaTimeConfigFilePath(),
+      "properties",
+      Keys.activitySource,
+      value,
+    );
+  }
+
+  // Seconds without keyboard or mouse input before the user counts as idle
+  static get idleThreshold(): number {
+    const file = getDesktopWakaTimeConfigFilePath();
+    const value = ConfigFileReader.get(file, "properties", Keys.idleThreshold);
+    const seconds = value === null ? NaN : parseInt(value);
+    if (isNaN(seconds) || seconds <= 0) {
+      return 300;
+    }
+    return seconds;
+  }
+  static set idleThreshold(value: number) {
+    ConfigFileReader.set(
+      getDesktopWakaTimeConfigFilePath(),
+      "properties",
+      Keys.idleThreshold,
+      `${Math.round(value)}`,
+    );
+  }
+
+  static get resolveFileEntities(): boolean {
+    const file = getDesktopWakaTimeConfigFilePath();
+    const value = ConfigFileReader.getBool(
+      file,
+      "properties",
+      Keys.resolveFileEntities,
+    );
+    if (value === null) {
+      return false;
+    }
+    return value;
+  }
+  static set resolveFileEntities(value: boolean) {
+    ConfigFileReader.setBool(
+      getDesktopWakaTimeConfigFilePath(),
+      "properties",
+      Keys.resolveFileEntities,
+      value,
+    );
+  }
+
+  // Files matching these are never used as the heartbeat entity, one glob per line
+  static get entityExcludeGlobs(): string {
+    const file = getDesktopWakaTimeConfigFilePath();
+    const value = ConfigFileReader.get(
+      file,
+      "properties",
+      Keys.entityExcludeGlobs,
+    );
+    if (value === null) {
+      return (
+        "**/node_modules/**\n" +
+        "**/.git/**\n" +
+        "**/.hg/**\n" +
+        "**/.cache/**\n" +
+        "**/__pycache__/**\n" +
+        "**/target/**\n" +
+        "**/dist/**\n" +
+        "**/build/**\n" +
+        "**/*.lock\n" +
+        "**/*-lock.json\n" +
+        "**/*.swp\n" +
+        "**/*.log"
+      );
+    }
+    return value;
+  }
+  static set entityExcludeGlobs(value: string) {
+    ConfigFileReader.set(
+      getDesktopWakaTimeConfigFilePath(),
+      "properties",
+      Keys.entityExcludeGlobs,
+      value,
+    );
+  }
+
+  static get entityExcludeGlobList(): string[] {
+    return this.entityExcludeGlobs
+      .split("\n")
+      .map((glob) => glob.trim())
+      .filter(Boolean);
+  }
+
+  // Whether unenrolled programs are tracked locally to suggest enrolling them
+  static get programDiscovery(): boolean {
+    const file = getDesktopWakaTimeConfigFilePath();
+    const value = ConfigFileReader.getBool(
+      file,
+      "properties",
+      Keys.programDiscovery,
+    );
+    if (value === null) {
+      return false;
+    }
+    return value;
+  }
+  static set programDiscovery(value: boolean) {
+    ConfigFileReader.setBool(
+      getDesktopWakaTimeConfigFilePath(),
+      "properties",
+      Keys.programDiscovery,
+      value,
+    );
+  }
+
   static get currentFilterList() {
     switch (this.filterType) {
       case "allowlist":
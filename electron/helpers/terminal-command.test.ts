@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+
+import type { RunningProcess } from "./process-monitor";
+import { ProcessSnapshot } from "./process-snapshot";
+import {
+  classifyCommand,
+  findTerminalCommand,
+  getToolArgs,
+} from "./terminal-command";
+
+function processOf(command: string, pid = 100, ppid = 1): RunningProcess {
+  const argv = command.split(" ");
+  return { pid, ppid, name: argv[0], command, argv };
+}
+
+describe("getToolArgs", () => {
+  it.each([
+    ["cargo test", ["cargo", "test"]],
+    ["python3 -m pytest tests", ["pytest", "tests"]],
+    ["python3.12 -u -m pytest", ["pytest"]],
+    ["node --inspect node_modules/.bin/jest", ["node_modules/.bin/jest"]],
+    ["npx vitest run", ["vitest", "run"]],
+    ["bundle exec rspec", ["rspec"]],
+    ["uv run pytest", ["pytest"]],
+    ["poetry run python -m pytest", ["pytest"]],
+    ["node", ["node"]],
+  ])("%s", (command, expected) => {
+    expect(getToolArgs(processOf(command))).toEqual(expected);
+  });
+});
+
+describe("classifyCommand", () => {
+  it.each([
+    // Tools that always build or run tests
+    ["make -j8", "make", "building"],
+    ["/usr/bin/tsc -p tsconfig.json", "tsc", "building"],
+    ["pytest -x tests", "pytest", "running tests"],
+    ["python -m pytest", "pytest", "running tests"],
+    ["node /usr/lib/node_modules/jest/bin/jest.js", "jest", "running tests"],
+    ["npx vitest run", "vitest", "running tests"],
+    ["vitest --run", "vitest", "running tests"],
+    // Tools whose subcommand decides
+    ["cargo +nightly build --release", "cargo build", "building"],
+    ["cargo t", "cargo t", "running tests"],
+    ["go test ./...", "go test", "running tests"],
+    [
+      "node /usr/lib/node_modules/npm/bin/npm-cli.js test",
+      "npm test",
+      "running tests",
+    ],
+    ["npm run build", "npm build", "building"],
+    ["npm test -w packages/app", "npm test", "running tests"],
+    ["gradlew check", "gradlew check", "running tests"],
+    ["mvn -q package", "mvn package", "building"],
+    ["make -w all", "make", "building"],
+  ])("%s is %s", (command, expectedCommand, category) => {
+    expect(classifyCommand(processOf(command))).toEqual({
+      command: expectedCommand,
+      category,
+    });
+  });
+
+  it.each([
+    // Neither a build nor a test run
+    "bash",
+    "vim src/main.rs",
+    "cargo run",
+    "npm install",
+    "npm run lint",
+    "docker ps",
+    // Watch mode
+    "tsc --watch",
+    "tsc -w",
+    "webpack serve",
+    "webpack --watch",
+    "jest --watchAll",
+    "mocha -w",
+    "npm run build -- --watch",
+    "npm test -- --watch",
+    "vitest",
+    "npx vitest --coverage",
+    "vitest watch",
+    "vitest dev",
+    "gradle build --continuous",
+    "cargo watch",
+    "bun build --watch=true",
+  ])("%s is neither", (command) => {
+    expect(classifyCommand(processOf(command))).toBeNull();
+  });
+});
+
+describe("findTerminalCommand", () => {
+  it("reports the command the shell started, not what it spawns", () => {
+    const terminal = processOf("kitty", 10, 1);
+    const shell = processOf("bash", 11, 10);
+    const cargo = processOf("cargo build", 12, 11);
+    const rustc = processOf("rustc --crate-name app", 13, 12);
+    const processes = [terminal, shell, cargo, rustc];
+
+    expect(
+      findTerminalCommand(processes, new ProcessSnapshot(processes)),
+    ).toEqual({ process: cargo, command: "cargo build", category: "building" });
+  });
+
+  it("prefers a test run over a build", () => {
+    const shell = processOf("bash", 11, 10);
+    const build = processOf("make", 12, 11);
+    const tests = processOf("npm test", 13, 11);
+    const processes = [shell, build, tests];
+
+    expect(
+      findTerminalCommand(processes, new ProcessSnapshot(processes))?.process,
+    ).toBe(tests);
+  });
+
+  it("ignores a test runner left watching", () => {
+    const shell = processOf("bash", 11, 10);
+    const watcher = processOf("npx vitest", 12, 11);
+    const processes = [shell, watcher];
+
+    expect(
+      findTerminalCommand(processes, new ProcessSnapshot(processes)),
+    ).toBeNull();
+  });
+});
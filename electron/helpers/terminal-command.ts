@@ -0,0 +1,237 @@
+import path from "node:path";
+
+import type { Category } from "../utils/types";
+import type { RunningProcess } from "./process-monitor";
+import type { ProcessSnapshot } from "./process-snapshot";
+
+/**
+ * A build or test command running in a terminal
+ */
+export interface TerminalCommand {
+  process: RunningProcess;
+  // The tool and subcommand, e.g. `cargo test`
+  command: string;
+  category: Extract<Category, "building" | "running tests">;
+}
+
+const TERMINAL_NAMES = new Set([
+  "alacritty",
+  "foot",
+  "ghostty",
+  "gnome-terminal-server",
+  "iterm2",
+  "kgx",
+  "kitty",
+  "konsole",
+  "ptyxis-agent",
+  "terminal",
+  "terminator",
+  "tilix",
+  "warp",
+  "wezterm-gui",
+  "windowsterminal",
+  "xfce4-terminal",
+  "xterm",
+]);
+
+// Commands that are a build or a test run whatever their arguments
+const TEST_TOOLS = new Set([
+  "ctest",
+  "jest",
+  "mocha",
+  "nox",
+  "phpunit",
+  "py.test",
+  "pytest",
+  "rspec",
+  "tox",
+  "vitest",
+]);
+const BUILD_TOOLS = new Set([
+  "bazel",
+  "cmake",
+  "gmake",
+  "make",
+  "meson",
+  "msbuild",
+  "ninja",
+  "tsc",
+  "webpack",
+  "xcodebuild",
+]);
+
+// Commands whose subcommand tells whether they build or run tests
+const SUBCOMMANDS: Record<string, { build: string[]; test: string[] }> = {
+  bun: { build: ["build"], test: ["test"] },
+  cargo: {
+    build: ["build", "b", "check", "c"],
+    test: ["test", "t", "nextest"],
+  },
+  docker: { build: ["build"], test: [] },
+  dotnet: { build: ["build", "publish"], test: ["test"] },
+  go: { build: ["build", "install"], test: ["test"] },
+  gradle: { build: ["build", "assemble"], test: ["test", "check"] },
+  gradlew: { build: ["build", "assemble"], test: ["test", "check"] },
+  mix: { build: ["compile"], test: ["test"] },
+  mvn: { build: ["compile", "package", "install"], test: ["test", "verify"] },
+  npm: { build: ["build"], test: ["test", "t"] },
+  pnpm: { build: ["build"], test: ["test", "t"] },
+  rake: { build: ["build"], test: ["test", "spec"] },
+  swift: { build: ["build"], test: ["test"] },
+  yarn: { build: ["build"], test: ["test"] },
+};
+
+// Options and subcommands that keep a tool running, rebuilding or rerunning
+// tests on every change, which isn't time spent waiting on a build or a test
+// run. `-w` only means watch for some tools, e.g. it's `--workspace` for npm.
+const WATCH_OPTIONS = new Set([
+  "--continuous",
+  "--watch",
+  "--watchAll",
+  "--watch-all",
+]);
+const SHORT_WATCH_OPTION_TOOLS = new Set(["mocha", "tsc", "webpack"]);
+const WATCH_SUBCOMMANDS = new Set(["dev", "serve", "watch"]);
+
+// Interpreters and launchers that run the actual tool as their argument
+const LAUNCHERS = /^(python[\d.]*|node|ruby|deno|npx|bunx|bundle|uv|poetry)$/;
+
+// `npm-cli.js` and `jest.cmd` are run as `npm` and `jest`
+function toolName(arg: string) {
+  return path
+    .basename(arg)
+    .replace(/\.(exe|cmd|bat)$/i, "")
+    .replace(/(-cli)?\.[cm]?js$/, "");
+}
+
+/**
+ * The arguments of the tool a process runs, after skipping interpreters and
+ * launchers like `python -m` or `npx`
+ */
+export function getToolArgs(proc: RunningProcess) {
+  let args = proc.argv ?? proc.command.split(" ");
+  while (args.length > 1 && LAUNCHERS.test(toolName(args[0]))) {
+    args = args.slice(1);
+    // Interpreter options, e.g. `node --inspect`
+    while (args[0]?.startsWith("-") && args[0] !== "-m") {
+      args = args.slice(1);
+    }
+    // `bundle exec`, `uv run`, `poetry run`
+    if (args[0] === "exec" || args[0] === "run") {
+      args = args.slice(1);
+    }
+    // `python -m pytest`
+    if (args[0] === "-m") {
+      args = args.slice(1);
+    }
+  }
+  return args;
+}
+
+// Whether a tool runs in watch mode, e.g. `tsc --watch` or `webpack serve`.
+// Vitest watches unless told to run once.
+function isWatchMode(tool: string, args: string[]) {
+  const options = args
+    .filter((arg) => arg.startsWith("-"))
+    .map((arg) => arg.split("=")[0]);
+  const subcommand = args.find((arg) => !arg.startsWith("-"));
+  if (
+    options.some((option) => WATCH_OPTIONS.has(option)) ||
+    (options.includes("-w") && SHORT_WATCH_OPTION_TOOLS.has(tool)) ||
+    (subcommand !== undefined && WATCH_SUBCOMMANDS.has(subcommand))
+  ) {
+    return true;
+  }
+  return (
+    tool === "vitest" && subcommand !== "run" && !options.includes("--run")
+  );
+}
+
+/**
+ * Tell whether a process is a build or a test run, from the tool it runs and
+ * its subcommand. Package scripts count by their name, e.g. `npm run build`.
+ * Tools left watching for changes are neither.
+ */
+export function classifyCommand(
+  proc: RunningProcess,
+): Omit<TerminalCommand, "process"> | null {
+  const args = getToolArgs(proc);
+  if (args.length === 0) {
+    return null;
+  }
+
+  const tool = toolName(args[0]);
+  if (isWatchMode(tool, args.slice(1))) {
+    return null;
+  }
+  if (TEST_TOOLS.has(tool)) {
+    return { command: tool, category: "running tests" };
+  }
+  if (BUILD_TOOLS.has(tool)) {
+    return { command: tool, category: "building" };
+  }
+
+  const subcommands = SUBCOMMANDS[tool];
+  if (!subcommands) {
+    return null;
+  }
+  // Skip options and toolchains like `cargo +nightly`
+  const subcommandArgs = args.slice(1).filter((arg) => !/^[-+]/.test(arg));
+  const subcommand =
+    subcommandArgs[0] === "run" ? subcommandArgs[1] : subcommandArgs[0];
+  if (!subcommand) {
+    return null;
+  }
+  const command = `${tool} ${subcommand}`;
+  if (subcommands.test.includes(subcommand)) {
+    return { command, category: "running tests" };
+  }
+  if (subcommands.build.includes(subcommand)) {
+    return { command, category: "building" };
+  }
+  return null;
+}
+
+/**
+ * Check whether any of the processes is a terminal emulator
+ */
+export function isTerminal(processes: RunningProcess[]) {
+  return processes.some((proc) =>
+    [proc.name, proc.exe]
+      .filter((name): name is string => !!name)
+      .some((name) => TERMINAL_NAMES.has(toolName(name).toLowerCase())),
+  );
+}
+
+/**
+ * Find the build or test command running in a terminal. The tool started
+ * directly by the shell is reported, not the compilers or workers it spawns,
+ * and test runs win over builds since running tests usually builds first.
+ */
+export function findTerminalCommand(
+  processes: RunningProcess[],
+  snapshot: ProcessSnapshot,
+): TerminalCommand | null {
+  const pids = new Set(processes.map((proc) => proc.pid));
+  let found: TerminalCommand | null = null;
+
+  for (const proc of processes) {
+    const classified = classifyCommand(proc);
+    if (!classified) {
+      continue;
+    }
+    // Skip processes started by a command that was already classified
+    const parent =
+      proc.ppid !== undefined ? snapshot.getProcess(proc.ppid) : null;
+    if (parent && pids.has(parent.pid) && classifyCommand(parent)) {
+      continue;
+    }
+    if (!found || classified.category === "running tests") {
+      found = { process: proc, ...classified };
+    }
+    if (found.category === "running tests") {
+      break;
+    }
+  }
+  return found;
+}
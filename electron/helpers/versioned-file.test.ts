@@ -0,0 +1,105 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+
+import { VersionedFile } from "./versioned-file";
+
+vi.mock("../utils/logging", () => ({
+  Logging: { instance: () => ({ log: () => {} }) },
+  LogLevel: { DEBUG: 0, INFO: 1, WARN: 2, ERROR: 3 },
+}));
+
+const schema = z.object({ items: z.array(z.string()) });
+
+// Version 1 stored the items as a comma separated string
+const migrations = {
+  1: (data: unknown) => ({
+    items: z.object({ items: z.string() }).parse(data).items.split(","),
+  }),
+};
+
+describe("VersionedFile", () => {
+  let dir: string;
+  let filePath: string;
+
+  const open = () =>
+    new VersionedFile(filePath, { version: 2, schema, migrations });
+  const write = (contents: unknown) =>
+    fs.writeFileSync(filePath, JSON.stringify(contents));
+  const read = () => JSON.parse(fs.readFileSync(filePath, "utf-8"));
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "versioned-file-"));
+    filePath = path.join(dir, "data.json");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reports a missing file", () => {
+    expect(open().read()).toEqual({ status: "missing" });
+  });
+
+  it("migrates a version 1 file without an envelope", () => {
+    write({ items: "a,b" });
+
+    expect(open().read()).toEqual({
+      status: "loaded",
+      data: { items: ["a", "b"] },
+    });
+    expect(read()).toEqual({ version: 2, data: { items: ["a", "b"] } });
+    expect(JSON.parse(fs.readFileSync(`${filePath}.v1.bak`, "utf-8"))).toEqual({
+      items: "a,b",
+    });
+  });
+
+  it("loads the current version as is", () => {
+    write({ version: 2, data: { items: ["a"] } });
+
+    expect(open().load()).toEqual({ items: ["a"] });
+    expect(fs.existsSync(`${filePath}.v1.bak`)).toBe(false);
+  });
+
+  it("keeps a file from a newer version unchanged", () => {
+    const newer = { version: 3, data: { items: ["a"], extra: true } };
+    write(newer);
+    const file = open();
+
+    expect(file.read()).toEqual({
+      status: "newer",
+      version: 3,
+      data: { items: ["a"] },
+    });
+    expect(file.load()).toBeNull();
+    expect(() => file.save({ items: [] })).toThrow();
+    expect(read()).toEqual(newer);
+  });
+
+  it("leaves out newer data that no longer fits the schema", () => {
+    write({ version: 3, data: { items: "a" } });
+
+    expect(open().read()).toEqual({ status: "newer", version: 3, data: null });
+  });
+
+  it("recovers from the backup of the previous write", () => {
+    const file = open();
+    file.save({ items: ["a"] });
+    file.save({ items: ["b"] });
+    fs.writeFileSync(filePath, "{");
+
+    expect(open().load()).toEqual({ items: ["a"] });
+  });
+
+  it("backs up a file that can't be read", () => {
+    fs.writeFileSync(filePath, "{");
+
+    expect(open().read()).toEqual({ status: "unreadable" });
+    const backups = fs
+      .readdirSync(dir)
+      .filter((name) => name.startsWith("data.json.unreadable-"));
+    expect(backups).toHaveLength(1);
+  });
+});
@@ -0,0 +1,168 @@
+import fs from "node:fs";
+import { z } from "zod";
+
+import { Logging, LogLevel } from "../utils/logging";
+import { readFileWithRecovery, writeFileAtomic } from "./atomic-file";
+
+/**
+ * Upgrades data from one version to the next. Keyed by the version it
+ * upgrades from.
+ */
+export type Migrations = Record<number, (data: unknown) => unknown>;
+
+const envelopeSchema = z.object({
+  version: z.number().int().positive(),
+  data: z.unknown(),
+});
+
+export type LoadResult<T> =
+  | { status: "loaded"; data: T }
+  | { status: "missing" }
+  | { status: "unreadable" }
+  // Written by a newer release. The data is only there when it still fits the
+  // current schema.
+  | { status: "newer"; version: number; data: T | null };
+
+/**
+ * A JSON file stored as `{ version, data }`. On load, older versions are
+ * upgraded through the migration chain after backing up the original file,
+ * and files that can't be read are backed up before being replaced, so user
+ * data is never silently discarded. Files written before versioning was added
+ * are treated as version 1. Files from a newer release are never written
+ * over. Writes are atomic.
+ */
+export class VersionedFile<T> {
+  filePath: string;
+  private version: number;
+  private schema: z.ZodType<T>;
+  private migrations: Migrations;
+  private indent?: number;
+  private newerVersion: number | null = null;
+
+  constructor(
+    filePath: string,
+    options: {
+      version: number;
+      schema: z.ZodType<T>;
+      migrations: Migrations;
+      indent?: number;
+    },
+  ) {
+    this.filePath = filePath;
+    this.version = options.version;
+    this.schema = options.schema;
+    this.migrations = options.migrations;
+    this.indent = options.indent;
+  }
+
+  /**
+   * Read and upgrade the file. Returns null when it doesn't exist or can't be
+   * used, in which case any existing file has been backed up.
+   */
+  load(): T | null {
+    const result = this.read();
+    return result.status === "loaded" ? result.data : null;
+  }
+
+  /**
+   * Read and upgrade the file, telling apart why there's no data
+   */
+  read(): LoadResult<T> {
+    try {
+      const loaded = readFileWithRecovery(this.filePath, (contents) =>
+        this.parse(contents),
+      );
+      if (!loaded) {
+        return { status: "missing" };
+      }
+
+      if (loaded.newer) {
+        this.newerVersion = loaded.version;
+        Logging.instance().log(
+          `${this.filePath} is version ${loaded.version}, newer than the supported version ${this.version}, and will be kept unchanged`,
+          LogLevel.WARN,
+          true,
+        );
+        return { status: "newer", version: loaded.version, data: loaded.data };
+      }
+
+      if (loaded.version < this.version) {
+        this.backup(`v${loaded.version}`);
+        this.save(loaded.data);
+        Logging.instance().log(
+          `Migrated ${this.filePath} from version ${loaded.version} to ${this.version}`,
+          LogLevel.INFO,
+        );
+      }
+      return { status: "loaded", data: loaded.data };
+    } catch (error) {
+      Logging.instance().log(
+        `Failed to load ${this.filePath}: ${error}`,
+        LogLevel.ERROR,
+        true,
+      );
+      this.backup(`unreadable-${Date.now()}`);
+      return { status: "unreadable" };
+    }
+  }
+
+  save(data: T) {
+    if (this.newerVersion !== null) {
+      throw new Error(
+        `${this.filePath} is version ${this.newerVersion}, newer than the supported version ${this.version}`,
+      );
+    }
+    writeFileAtomic(
+      this.filePath,
+      JSON.stringify({ version: this.version, data }, null, this.indent),
+    );
+  }
+
+  private parse(
+    contents: string,
+  ):
+    | { version: number; newer: false; data: T }
+    | { version: number; newer: true; data: T | null } {
+    const json = JSON.parse(contents) as unknown;
+    const envelope = envelopeSchema.safeParse(json);
+    const version = envelope.success ? envelope.data.version : 1;
+    let data = envelope.success ? envelope.data.data : json;
+
+    // Not an error, so the backup isn't read instead of the newer file
+    if (version > this.version) {
+      const parsed = this.schema.safeParse(data);
+      return {
+        version,
+        newer: true,
+        data: parsed.success ? parsed.data : null,
+      };
+    }
+
+    for (let from = version; from < this.version; from++) {
+      const migrate = this.migrations[from];
+      if (!migrate) {
+        throw new Error(`no migration from version ${from}`);
+      }
+      data = migrate(data);
+    }
+
+    return { version, newer: false, data: this.schema.parse(data) };
+  }
+
+  private backup(suffix: string) {
+    const backupPath = `${this.filePath}.${suffix}.bak`;
+    try {
+      fs.copyFileSync(this.filePath, backupPath);
+      Logging.instance().log(
+        `Backed up ${this.filePath} to ${backupPath}`,
+        LogLevel.INFO,
+      );
+    } catch (error) {
+      Logging.instance().log(
+        `Failed to back up ${this.filePath}: ${error}`,
+        LogLevel.ERROR,
+        true,
+      );
+    }
+  }
+}
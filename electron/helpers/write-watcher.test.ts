@@ -0,0 +1,80 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { WriteWatcher } from "./write-watcher";
+
+vi.mock("electron", () => ({
+  app: { getPath: () => "/home/user" },
+}));
+
+vi.mock("../utils/logging", () => ({
+  Logging: { instance: () => ({ log: () => {} }) },
+  LogLevel: { DEBUG: 0, INFO: 1, WARN: 2, ERROR: 3 },
+}));
+
+vi.mock("./properties-manager", () => ({
+  PropertiesManager: { entityExcludeGlobList: ["**/node_modules/**"] },
+}));
+
+describe("WriteWatcher", () => {
+  let root: string;
+  let watcher: WriteWatcher;
+
+  const save = (name: string) => {
+    const file = path.join(root, name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, "saved");
+    return file;
+  };
+
+  beforeEach(() => {
+    root = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), "write-watcher-")),
+    );
+    fs.mkdirSync(path.join(root, "node_modules"));
+    watcher = new WriteWatcher();
+    watcher.setWatchedRoots(new Set([root]));
+  });
+
+  afterEach(() => {
+    watcher.close();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("only attributes saves of files the program has open", async () => {
+    const other = save("generated.js");
+    const open = save("main.ts");
+
+    await vi.waitFor(() => expect(watcher.takeWrite(root, [open])).toBe(open));
+    // Each save is reported once, and the other file's save is kept for the
+    // program that has it open
+    expect(watcher.takeWrite(root, [open])).toBeNull();
+    await vi.waitFor(() =>
+      expect(watcher.takeWrite(root, [other])).toBe(other),
+    );
+  });
+
+  it("ignores saves that are too old", async () => {
+    const open = save("main.ts");
+    const later = Date.now() + 3 * 60 * 1000;
+
+    // Give the watcher time to see the save before looking it up
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(watcher.takeWrite(root, [open], later)).toBeNull();
+    expect(watcher.takeWrite(root, [open])).toBeNull();
+  });
+
+  it("ignores excluded files", async () => {
+    const excluded = save("node_modules/pkg/index.js");
+    const open = save("main.ts");
+
+    await vi.waitFor(() => expect(watcher.takeWrite(root, [open])).toBe(open));
+    expect(watcher.takeWrite(root, [excluded])).toBeNull();
+  });
+
+  it("ignores roots it doesn't watch", () => {
+    expect(watcher.takeWrite("/elsewhere", ["/elsewhere/main.ts"])).toBeNull();
+  });
+});
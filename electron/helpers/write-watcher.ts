@@ -0,0 +1,228 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import { matchesGlob } from "../utils";
+import { Logging, LogLevel } from "../utils/logging";
+import { PropertiesManager } from "./properties-manager";
+
+// Each watched directory uses one inotify watch on Linux, and the default
+// per-user limit is often only 8192, so stay well below it
+const MAX_WATCHED_DIRECTORIES_PER_ROOT = 1000;
+const MAX_WATCHED_DIRECTORIES = 4000;
+// Saves older than this aren't attributed to a program that opens the file
+// later
+const MAX_WRITE_AGE_MS = 2 * 60 * 1000;
+const MAX_RECENT_WRITES_PER_ROOT = 1000;
+
+interface WatchedRoot {
+  watchers: Map<string, fs.FSWatcher>;
+  // Saved files and when they were saved, oldest first
+  recentWrites: Map<string, number>;
+}
+
+/**
+ * Watches project directories for saved files, so heartbeats can be marked as
+ * writes. A save only counts as a write by a program that has the file open,
+ * since anything else under the project root, like a build or a git checkout,
+ * changes files too. Directories are watched one by one rather than recursively, which
+ * lets excluded folders like node_modules be skipped and keeps the number of
+ * watches bounded.
+ */
+export class WriteWatcher {
+  private roots = new Map<string, WatchedRoot>();
+  private excludeGlobs: string[] = [];
+
+  /**
+   * Watch exactly the given project roots, starting new watches and closing
+   * the ones for projects no longer in use
+   */
+  setWatchedRoots(roots: Set<string>) {
+    this.excludeGlobs = PropertiesManager.entityExcludeGlobList;
+
+    for (const root of this.roots.keys()) {
+      if (!roots.has(root)) {
+        this.unwatchRoot(root);
+      }
+    }
+    for (const root of roots) {
+      if (!this.roots.has(root)) {
+        void this.watchRoot(root);
+      }
+    }
+  }
+
+  /**
+   * Get the most recently saved of the given open files under a project root,
+   * if any was saved in the last couple of minutes. Each save is only returned
+   * once.
+   */
+  takeWrite(root: string, openFiles: string[], now = Date.now()) {
+    const watched = this.roots.get(root);
+    if (!watched) {
+      return null;
+    }
+
+    for (const [file, time] of watched.recentWrites) {
+      if (now - time <= MAX_WRITE_AGE_MS) {
+        break;
+      }
+      watched.recentWrites.delete(file);
+    }
+
+    let latest: { file: string; time: number } | null = null;
+    for (const file of openFiles) {
+      const time = watched.recentWrites.get(file);
+      if (time !== undefined) {
+        watched.recentWrites.delete(file);
+        if (!latest || time > latest.time) {
+          latest = { file, time };
+        }
+      }
+    }
+    return latest?.file ?? null;
+  }
+
+  close() {
+    for (const root of Array.from(this.roots.keys())) {
+      this.unwatchRoot(root);
+    }
+  }
+
+  private get watchCount() {
+    let count = 0;
+    for (const watched of this.roots.values()) {
+      count += watched.watchers.size;
+    }
+    return count;
+  }
+
+  private isExcluded(file: string) {
+    return this.excludeGlobs.some((glob) => matchesGlob(file, glob));
+  }
+
+  private async watchRoot(root: string) {
+    const watched: WatchedRoot = {
+      watchers: new Map(),
+      recentWrites: new Map(),
+    };
+    this.roots.set(root, watched);
+
+    // Breadth first, so the top of the project is covered when the limit hits
+    const queue = [root];
+    while (queue.length > 0) {
+      // The root stopped being watched while its directories were listed
+      if (this.roots.get(root) !== watched) {
+        return;
+      }
+      const directory = queue.shift()!;
+      if (!this.watchDirectory(root, watched, directory)) {
+        Logging.instance().log(
+          `Stopped watching ${root} for writes after ${watched.watchers.size} directories`,
+          LogLevel.WARN,
+        );
+        break;
+      }
+      queue.push(...(await this.subdirectories(directory)));
+    }
+  }
+
+  private unwatchRoot(root: string) {
+    const watched = this.roots.get(root);
+    if (!watched) {
+      return;
+    }
+    for (const watcher of watched.watchers.values()) {
+      watcher.close();
+    }
+    this.roots.delete(root);
+  }
+
+  private async subdirectories(directory: string) {
+    try {
+      return (await fs.promises.readdir(directory, { withFileTypes: true }))
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => path.join(directory, entry.name))
+        .filter((child) => !this.isExcluded(child + path.sep));
+    } catch (_error) {
+      return [];
+    }
+  }
+
+  /**
+   * Start watching one directory. Returns false when the watch limit is
+   * reached.
+   */
+  private watchDirectory(
+    root: string,
+    watched: WatchedRoot,
+    directory: string,
+  ) {
+    if (watched.watchers.has(directory)) {
+      return true;
+    }
+    if (
+      watched.watchers.size >= MAX_WATCHED_DIRECTORIES_PER_ROOT ||
+      this.watchCount >= MAX_WATCHED_DIRECTORIES
+    ) {
+      return false;
+    }
+
+    try {
+      const watcher = fs.watch(directory, (_eventType, filename) => {
+        if (filename) {
+          void this.handleChange(root, watched, path.join(directory, filename));
+        }
+      });
+      watcher.on("error", () => {
+        // The directory was removed
+        watcher.close();
+        watched.watchers.delete(directory);
+      });
+      watched.watchers.set(directory, watcher);
+    } catch (error) {
+      Logging.instance().log(
+        `Failed to watch ${directory}: ${error}`,
+        LogLevel.DEBUG,
+      );
+    }
+    return true;
+  }
+
+  private async handleChange(root: string, watched: WatchedRoot, file: string) {
+    if (this.isExcluded(file)) {
+      return;
+    }
+
+    let stats: fs.Stats;
+    try {
+      stats = await fs.promises.stat(file);
+    } catch (_error) {
+      // Deleted, or a temporary file already renamed over the target
+      return;
+    }
+
+    // The root stopped being watched meanwhile
+    if (this.roots.get(root) !== watched) {
+      return;
+    }
+    if (stats.isDirectory()) {
+      if (!this.isExcluded(file + path.sep)) {
+        this.watchDirectory(root, watched, file);
+      }
+    } else if (stats.isFile()) {
+      this.recordWrite(watched, file);
+    }
+  }
+
+  private recordWrite(watched: WatchedRoot, file: string) {
+    // Re-inserted so the map stays ordered by save time
+    watched.recentWrites.delete(file);
+    watched.recentWrites.set(file, Date.now());
+    if (watched.recentWrites.size > MAX_RECENT_WRITES_PER_ROOT) {
+      const oldest = watched.recentWrites.keys().next().value;
+      if (oldest !== undefined) {
+        watched.recentWrites.delete(oldest);
+      }
+    }
+  }
+}
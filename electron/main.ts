@@ -11,7 +11,12 @@ import {
   Tray,
 } from "electron";
 
-import type { DomainPreferenceType, FilterType } from "./utils/constants";
+import type {
+  ActivitySourceType,
+  DomainPreferenceType,
+  FilterType,
+} from "./utils/constants";
+import { ActivitySourceManager } from "./helpers/activity-source-manager";
 import { AppsManager } from "./helpers/apps-manager";
 import { ConfigFile } from "./helpers/config-file";
 import { MonitoringManager } from "./helpers/monitoring-manager";
@@ -21,8 +26,17 @@ import { getLogFilePath } from "./utils";
 import { DeepLink, IpcKeys, WAKATIME_PROTOCALL } from "./utils/constants";
 import { Logging, LogLevel } from "./utils/logging";
 import { Wakatime } from "./watchers/wakatime";
-import { ProcessWatcher } from "./watchers/process-watcher";
+import type {
+  EnrolledProgram,
+  EnrolledProgramSettings,
+  MatchRule,
+} from "./helpers/enrolled-programs-manager";
 import { EnrolledProgramsManager } from "./helpers/enrolled-programs-manager";
+import { ProfileManager } from "./helpers/profile-manager";
+import { getEnrollableApps } from "./helpers/enrollable-apps";
+import { ProgramDiscovery } from "./helpers/program-discovery";
+import { getResolvedProgramPattern } from "./helpers/program-pattern";
+import type { ProgramPattern } from "./helpers/program-pattern";
 
 // ESM replacement for __dirname
 const __filename = fileURLToPath(import.meta.url);
@@ -50,7 +64,7 @@ const isMacOS = process.platform === "darwin";
 let settingsWindow: BrowserWindow | null = null;
 let monitoredAppsWindow: BrowserWindow | null = null;
 let tray: Tray | null = null;
-let watcher: ProcessWatcher | null = null;
+let activitySources: ActivitySourceManager | null = null;
 let wakatime: Wakatime | null = null;
 
 // 🚧 Use ['ENV_NAME'] avoid vite:define plugin - Vite@2.x
@@ -85,7 +99,7 @@ function createSettingsWindow() {
     maximizable: false,
     resizable: false,
     width: 512,
-    height: MonitoringManager.isBrowserMonitored() ? 840 : 380,
+    height: MonitoringManager.isBrowserMonitored() ? 1000 : 540,
     show: false,
     autoHideMenuBar: true,
   });
@@ -253,8 +267,8 @@ if (!gotTheLock) {
     createTray();
     wakatime = new Wakatime();
     wakatime.init(tray);
-    watcher = new ProcessWatcher(wakatime);
-    watcher.start();
+    activitySources = new ActivitySourceManager(wakatime);
+    activitySources.start();
   });
 
   app.on("open-url", (_event, url) => {
@@ -268,7 +282,10 @@ app.on("activate", () => {});
 
 app.on("quit", () => {
   Logging.instance().log("WakaTime will terminate");
-  watcher?.stop();
+  activitySources?.stop();
+  wakatime?.flushPendingHeartbeats();
+  EnrolledProgramsManager.getInstance().flush();
+  ProgramDiscovery.getInstance().flush();
 });
 
 // IPC Events
@@ -300,7 +317,8 @@ ipcMain.on(IpcKeys.getOpenApps, async (event) => {
   // Return enrolled programs that are currently running
   const enrolledManager = EnrolledProgramsManager.getInstance();
   const enrolledPrograms = enrolledManager.getAllPrograms();
-  const runningPrograms = watcher?.getCurrentlyRunningPrograms() || [];
+  const runningPrograms =
+    activitySources?.getCurrentlyRunningPrograms() || [];
   
   const runningEnrolledApps = enrolledPrograms
     .filter(program => runningPrograms.includes(program.path))
@@ -330,7 +348,7 @@ ipcMain.on(IpcKeys.getAllAvailableApps, async (event) => {
     id: program.path,
     name: program.name,
     path: program.path,
-    icon: null,
+    icon: getEnrolledProgramIcon(program),
     isBrowser: false,
     isDefaultEnabled: false,
     isElectronApp: false,
@@ -439,20 +457,71 @@ ipcMain.on(IpcKeys.setAllowlist, (_, value: string) => {
   PropertiesManager.allowlist = value;
 });
 
+ipcMain.on(IpcKeys.getActivitySources, (event) => {
+  event.returnValue = ActivitySourceManager.getAvailableSources();
+});
+ipcMain.on(IpcKeys.getActivitySource, (event) => {
+  event.returnValue = ActivitySourceManager.selectedSourceType;
+});
+ipcMain.on(IpcKeys.setActivitySource, (_, value: ActivitySourceType) => {
+  PropertiesManager.activitySource = value;
+  activitySources?.refreshSource();
+});
+
+ipcMain.on(IpcKeys.getIdleThreshold, (event) => {
+  event.returnValue = PropertiesManager.idleThreshold;
+});
+ipcMain.on(IpcKeys.setIdleThreshold, (_, value: number) => {
+  PropertiesManager.idleThreshold = value;
+});
+
+ipcMain.on(IpcKeys.getResolveFileEntities, (event) => {
+  event.returnValue = PropertiesManager.resolveFileEntities;
+});
+ipcMain.on(IpcKeys.setResolveFileEntities, (_, value: boolean) => {
+  PropertiesManager.resolveFileEntities = value;
+});
+
+ipcMain.on(IpcKeys.getEntityExcludeGlobs, (event) => {
+  event.returnValue = PropertiesManager.entityExcludeGlobs;
+});
+ipcMain.on(IpcKeys.setEntityExcludeGlobs, (_, value: string) => {
+  PropertiesManager.entityExcludeGlobs = value;
+});
+
 ipcMain.on(IpcKeys.shellOpenExternal, (_, url: string) => {
   shell.openExternal(url);
 });
 
 // Enrolled programs management
+function getEnrolledProgramIcon(program: EnrolledProgram) {
+  const executablePaths = program.pattern
+    ? (getResolvedProgramPattern(program.pattern) ?? [])
+    : [program.path];
+  return AppsManager.instance().getAppIcon(executablePaths);
+}
+
 ipcMain.on(IpcKeys.getEnrolledPrograms, (event) => {
   const enrolledManager = EnrolledProgramsManager.getInstance();
-  event.returnValue = enrolledManager.getAllPrograms();
+  enrolledManager.refreshStatus();
+  event.returnValue = enrolledManager.getAllPrograms().map((program) => ({
+    ...program,
+    icon: getEnrolledProgramIcon(program),
+  }));
 });
 
-ipcMain.on(IpcKeys.enrollProgram, (event, programPath: string) => {
+ipcMain.on(
+  IpcKeys.enrollProgram,
+  (event, programPath: string, matchRules?: MatchRule[]) => {
+    const enrolledManager = EnrolledProgramsManager.getInstance();
+    const result = enrolledManager.enrollProgram(programPath, matchRules);
+    event.returnValue = result;
+  },
+);
+
+ipcMain.on(IpcKeys.enrollProgramPattern, (event, pattern: ProgramPattern) => {
   const enrolledManager = EnrolledProgramsManager.getInstance();
-  const result = enrolledManager.enrollProgram(programPath);
-  event.returnValue = result;
+  event.returnValue = enrolledManager.enrollPattern(pattern);
 });
 
 ipcMain.on(IpcKeys.removeEnrolledProgram, (event, programId: string) => {
@@ -461,6 +530,38 @@ ipcMain.on(IpcKeys.removeEnrolledProgram, (event, programId: string) => {
   event.returnValue = result;
 });
 
+ipcMain.on(
+  IpcKeys.updateEnrolledProgram,
+  (event, programId: string, settings: EnrolledProgramSettings) => {
+    const enrolledManager = EnrolledProgramsManager.getInstance();
+    event.returnValue = enrolledManager.updateProgram(programId, settings);
+  },
+);
+
+ipcMain.on(
+  IpcKeys.relinkEnrolledProgram,
+  (event, programId: string, programPath: string) => {
+    const enrolledManager = EnrolledProgramsManager.getInstance();
+    event.returnValue = enrolledManager.relinkProgram(programId, programPath);
+  },
+);
+
+ipcMain.handle(IpcKeys.getEnrollableApps, () => getEnrollableApps());
+
+ipcMain.on(IpcKeys.getProgramDiscovery, (event) => {
+  event.returnValue = PropertiesManager.programDiscovery;
+});
+ipcMain.on(IpcKeys.setProgramDiscovery, (_, value: boolean) => {
+  PropertiesManager.programDiscovery = value;
+  if (!value) {
+    ProgramDiscovery.getInstance().clear();
+  }
+});
+
+ipcMain.on(IpcKeys.getProgramSuggestions, (event) => {
+  event.returnValue = ProgramDiscovery.getInstance().getSuggestions();
+});
+
 ipcMain.handle(IpcKeys.showFileDialog, async () => {
   const { dialog } = await import('electron');
   const result = await dialog.showOpenDialog({
@@ -477,3 +578,71 @@ ipcMain.handle(IpcKeys.showFileDialog, async () => {
   
   return result.filePaths[0];
 });
+
+ipcMain.handle(IpcKeys.exportProfile, async () => {
+  const { dialog } = await import("electron");
+  const result = await dialog.showSaveDialog({
+    title: "Export Profile",
+    defaultPath: "wakatime-profile.json",
+    filters: [{ name: "JSON", extensions: ["json"] }],
+  });
+
+  if (result.canceled || !result.filePath) {
+    return null;
+  }
+
+  try {
+    ProfileManager.exportProfile(result.filePath);
+    return result.filePath;
+  } catch (error) {
+    Logging.instance().log(
+      `Failed to export profile: ${error}`,
+      LogLevel.ERROR,
+      true,
+    );
+    return null;
+  }
+});
+
+ipcMain.handle(IpcKeys.previewProfileImport, async () => {
+  const { dialog } = await import("electron");
+  const result = await dialog.showOpenDialog({
+    title: "Import Profile",
+    properties: ["openFile"],
+    filters: [{ name: "JSON", extensions: ["json"] }],
+  });
+
+  if (result.canceled || result.filePaths.length === 0) {
+    return null;
+  }
+
+  try {
+    const filePath = result.filePaths[0];
+    const profile = ProfileManager.readProfile(filePath);
+    return { filePath, ...ProfileManager.previewImport(profile) };
+  } catch (error) {
+    Logging.instance().log(
+      `Failed to read profile: ${error}`,
+      LogLevel.ERROR,
+      true,
+    );
+    return { error: `${error}` };
+  }
+});
+
+ipcMain.on(
+  IpcKeys.importProfile,
+  (event, filePath: string, includeFilters: boolean) => {
+    try {
+      const profile = ProfileManager.readProfile(filePath);
+      event.returnValue = ProfileManager.importProfile(profile, includeFilters);
+    } catch (error) {
+      Logging.instance().log(
+        `Failed to import profile: ${error}`,
+        LogLevel.ERROR,
+        true,
+      );
+      event.returnValue = null;
+    }
+  },
+);
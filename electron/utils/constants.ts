@@ -29,14 +29,36 @@ export const IpcKeys = {
   // Enrolled programs management
   getEnrolledPrograms: "get_enrolled_programs",
   enrollProgram: "enroll_program",
+  enrollProgramPattern: "enroll_program_pattern",
   removeEnrolledProgram: "remove_enrolled_program",
+  updateEnrolledProgram: "update_enrolled_program",
+  relinkEnrolledProgram: "relink_enrolled_program",
   showFileDialog: "show_file_dialog",
+  getEnrollableApps: "get_enrollable_apps",
+  getProgramDiscovery: "get_program_discovery",
+  setProgramDiscovery: "set_program_discovery",
+  getProgramSuggestions: "get_program_suggestions",
+  exportProfile: "export_profile",
+  previewProfileImport: "preview_profile_import",
+  importProfile: "import_profile",
+  // Activity sources
+  getActivitySources: "get_activity_sources",
+  getActivitySource: "get_activity_source",
+  setActivitySource: "set_activity_source",
+  getIdleThreshold: "get_idle_threshold",
+  setIdleThreshold: "set_idle_threshold",
+  getResolveFileEntities: "get_resolve_file_entities",
+  setResolveFileEntities: "set_resolve_file_entities",
+  getEntityExcludeGlobs: "get_entity_exclude_globs",
+  setEntityExcludeGlobs: "set_entity_exclude_globs",
 };
 
 export type FilterType = "denylist" | "allowlist";
 
 export type DomainPreferenceType = "domain" | "url";
 
+export type ActivitySourceType = "process" | "focused_window";
+
 export const DeepLink = {
   settings: "settings",
   monitoredApps: "monitoredApps",
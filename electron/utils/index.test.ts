@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { getGlobError, globToRegExp, isValidGlob, matchesGlob } from ".";
+
+vi.mock("electron", () => ({
+  app: { getPath: () => "/home/user" },
+}));
+
+describe("globToRegExp", () => {
+  it.each([
+    ["/usr/bin/*", "/usr/bin/code", true],
+    ["/usr/bin/*", "/usr/bin/sub/code", false],
+    ["/usr/bin/cod?", "/usr/bin/code", true],
+    ["/opt/**/bin/idea", "/opt/idea/2024.3/bin/idea", true],
+    ["/opt/**/bin/idea", "/opt/bin/idea", true],
+    ["/opt/**", "/opt/a/b/c", true],
+    ["~/projects/**", "/home/user/projects/app", true],
+    ["~/projects/**", "/home/other/projects/app", false],
+    ["/srv/{api,web}/*", "/srv/web/index.ts", true],
+    ["/srv/{api,web}/*", "/srv/docs/index.ts", false],
+    ["/srv/{a,{b,c}}", "/srv/c", true],
+    ["/srv/file.ts", "/srv/fileXts", false],
+    ["/srv/a+b(1)", "/srv/a+b(1)", true],
+  ])("%s against %s is %s", (glob, filePath, expected) => {
+    expect(globToRegExp(glob).test(filePath)).toBe(expected);
+    expect(matchesGlob(filePath, glob)).toBe(expected);
+  });
+
+  it("matches stray braces literally", () => {
+    expect(matchesGlob("/srv/a{b", "/srv/a{b")).toBe(true);
+    expect(matchesGlob("/srv/a}b", "/srv/a}b")).toBe(true);
+  });
+});
+
+describe("getGlobError", () => {
+  it.each(["~/projects/**", "/srv/{api,web}/*", "**/node_modules/**", "*.ts"])(
+    "accepts %s",
+    (glob) => {
+      expect(getGlobError(glob)).toBeNull();
+      expect(isValidGlob(glob)).toBe(true);
+    },
+  );
+
+  it.each([
+    ["", "empty"],
+    ["  ", "empty"],
+    ["/srv/**foo", "whole path segment"],
+    ["/srv/a**/b", "whole path segment"],
+    ["/srv/***/b", "whole path segment"],
+    ["/srv/{api,web", "never closed"],
+    ["/srv/api}", "without a matching"],
+    ["/srv/}{", "without a matching"],
+  ])("rejects %j", (glob, message) => {
+    expect(getGlobError(glob)).toContain(message);
+    expect(isValidGlob(glob)).toBe(false);
+  });
+});
@@ -91,6 +91,39 @@ export async function exec(...command: string[]) {
   }
 }
 
+/**
+ * Run a binary and report how it exited instead of treating any stderr output
+ * as failure. `input` is written to the process's stdin when given.
+ */
+export async function execFileWithStatus(
+  binary: string,
+  args: string[],
+  input?: string,
+) {
+  return await new Promise<{
+    stdout: string;
+    stderr: string;
+    exitCode: number | null;
+    error: string;
+  }>((resolve) => {
+    const child = execFile(binary, args, (error, stdout, stderr) => {
+      const code = (error as { code?: unknown } | null)?.code;
+      resolve({
+        stdout: `${stdout}`.trim(),
+        stderr: `${stderr}`.trim(),
+        exitCode: error ? (typeof code === "number" ? code : null) : 0,
+        error: error ? String(error) : "",
+      });
+    });
+    if (input !== undefined) {
+      child.stdin?.on("error", () => {
+        // The process exited before reading its input; the callback reports it
+      });
+      child.stdin?.end(input);
+    }
+  });
+}
+
 export function parseJSONObject(data: string): object | null {
   if (!data?.trim()) {
     return null;
@@ -114,3 +147,104 @@ export function parseJSONObject(data: string): object | null {
   }
   return null;
 }
+
+export function expandHomeDir(filePath: string) {
+  if (filePath === "~" || filePath.startsWith("~/")) {
+    return path.join(app.getPath("home"), filePath.slice(1));
+  }
+  return filePath;
+}
+
+// Converts a glob into an anchored regular expression. Supports `*` and `?`
+// within a path segment, `**` across segments, `{a,b}` alternatives and a
+// leading `~` for the home directory.
+export function globToRegExp(glob: string) {
+  const source = expandHomeDir(glob);
+
+  // Pair up the braces first, so ones that are never closed or opened are
+  // matched literally instead of leaving the expression unbalanced
+  const groupBraces = new Set<number>();
+  const openBraces: number[] = [];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === "{") {
+      openBraces.push(i);
+    } else if (source[i] === "}" && openBraces.length > 0) {
+      groupBraces.add(openBraces.pop()!);
+      groupBraces.add(i);
+    }
+  }
+
+  let pattern = "";
+  let depth = 0;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === "*") {
+      if (source[i + 1] === "*") {
+        // `**/` also matches zero directories
+        if (source[i + 2] === "/") {
+          pattern += "(?:.*/)?";
+          i += 2;
+        } else {
+          pattern += ".*";
+          i += 1;
+        }
+      } else {
+        pattern += "[^/]*";
+      }
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else if (char === "{" && groupBraces.has(i)) {
+      depth++;
+      pattern += "(?:";
+    } else if (char === "}" && groupBraces.has(i)) {
+      depth--;
+      pattern += ")";
+    } else if (char === "," && depth > 0) {
+      pattern += "|";
+    } else {
+      pattern += char.replace(/[.+^$(){}|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Describe what's wrong with a glob, or return null when it's valid. Globs
+ * can't be empty, `**` has to be a whole path segment and braces have to be
+ * balanced. `globToRegExp` matches stray braces literally, so this is where
+ * they are reported.
+ */
+export function getGlobError(glob: string) {
+  if (!glob.trim()) {
+    return "Glob is empty";
+  }
+
+  const segments = glob.split("/");
+  if (segments.some((segment) => segment.includes("**") && segment !== "**")) {
+    return "`**` must be a whole path segment, like `a/**/b`";
+  }
+
+  let depth = 0;
+  for (const char of glob) {
+    if (char === "{") {
+      depth++;
+    } else if (char === "}") {
+      depth--;
+      if (depth < 0) {
+        return "Unbalanced braces: `}` without a matching `{`";
+      }
+    }
+  }
+  if (depth > 0) {
+    return "Unbalanced braces: `{` is never closed";
+  }
+  return null;
+}
+
+export function isValidGlob(glob: string) {
+  return getGlobError(glob) === null;
+}
+
+export function matchesGlob(filePath: string, glob: string) {
+  return globToRegExp(glob).test(filePath);
+}
@@ -1,23 +1,52 @@
-export type Category =
-  | "browsing"
-  | "building"
-  | "code reviewing"
-  | "coding"
-  | "communicating"
-  | "debugging"
-  | "designing"
-  | "indexing"
-  | "learning"
-  | "manual testing"
-  | "meeting"
-  | "planning"
-  | "researching"
-  | "running tests"
-  | "translating"
-  | "writing docs"
-  | "writing tests";
+export const categories = [
+  "browsing",
+  "building",
+  "code reviewing",
+  "coding",
+  "communicating",
+  "debugging",
+  "designing",
+  "indexing",
+  "learning",
+  "manual testing",
+  "meeting",
+  "planning",
+  "researching",
+  "running tests",
+  "translating",
+  "writing docs",
+  "writing tests",
+] as const;
 
-export type EntityType = "file" | "app" | "url" | "domain";
+export type Category = (typeof categories)[number];
+
+export const entityTypes = ["file", "app", "url", "domain"] as const;
+
+export type EntityType = (typeof entityTypes)[number];
+
+/**
+ * A heartbeat as handed to wakatime-cli. `time` is in seconds since the epoch.
+ */
+export interface Heartbeat {
+  entity: string;
+  entityType: EntityType;
+  category: Category;
+  project: string | null;
+  language: string | null;
+  isWrite: boolean;
+  plugin: string;
+  time: number;
+}
+
+export interface WindowInfo {
+  url?: string;
+  title: string;
+  info: {
+    name: string;
+    path: string;
+    processId: number;
+  };
+}
 
 export type MonitoredApp =
   | "arcbrowser"
@@ -61,6 +90,11 @@ export type MonitoredAppInfo = {
     exePath?: string;
     DisplayName?: string;
   };
+  linux?: {
+    // Desktop entry ids, the .desktop file names without the extension, for
+    // the native, Flatpak and Snap packages
+    desktopIds: string[];
+  };
   isBrowser?: boolean;
   isDefaultEnabled?: boolean;
   isElectronApp?: boolean;
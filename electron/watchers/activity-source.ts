@@ -0,0 +1,61 @@
+import type { Category, EntityType, WindowInfo } from "../utils/types";
+import type { AppData } from "../utils/validators";
+import { Logging, LogLevel } from "../utils/logging";
+
+/**
+ * A unit of user activity observed by a source, carrying everything needed
+ * to send a heartbeat for it.
+ */
+export interface Activity {
+  appData?: AppData;
+  windowInfo: WindowInfo;
+  entity: string;
+  entityType: EntityType;
+  category: Category | null;
+  project: string | null;
+  language: string | null;
+  isWrite: boolean;
+  // Name to report the app under in the plugin string, instead of its own
+  pluginName?: string;
+}
+
+export type ActivityListener = (activity: Activity) => void | Promise<void>;
+
+/**
+ * Something that observes user activity and reports it. Sources own their
+ * scheduling between `start()` and `stop()`, and report each activity to the
+ * listeners registered with `onActivity()`.
+ */
+export abstract class ActivitySource {
+  private listeners: ActivityListener[] = [];
+
+  abstract start(): void;
+
+  abstract stop(): void;
+
+  abstract isRunning(): boolean;
+
+  /**
+   * Register a listener for activity. Returns a function that removes it.
+   */
+  onActivity(listener: ActivityListener) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((item) => item !== listener);
+    };
+  }
+
+  protected async emitActivity(activity: Activity) {
+    for (const listener of this.listeners) {
+      try {
+        await listener(activity);
+      } catch (error) {
+        Logging.instance().log(
+          `Activity listener failed: ${error}`,
+          LogLevel.ERROR,
+          true,
+        );
+      }
+    }
+  }
+}
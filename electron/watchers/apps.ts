@@ -21,6 +21,9 @@ export const allApps: MonitoredAppInfo[] = [
       exePath: "brave.exe",
       DisplayName: "Brave",
     },
+    linux: {
+      desktopIds: ["brave-browser", "com.brave.Browser"],
+    },
     isBrowser: true,
   },
   {
@@ -43,6 +46,9 @@ export const allApps: MonitoredAppInfo[] = [
       exePath: "chrome.exe",
       DisplayName: "Google Chrome",
     },
+    linux: {
+      desktopIds: ["google-chrome", "com.google.Chrome"],
+    },
     isBrowser: true,
   },
   {
@@ -66,6 +72,14 @@ export const allApps: MonitoredAppInfo[] = [
       exePath: "firefox.exe",
       DisplayName: "Mozilla Firefox",
     },
+    linux: {
+      desktopIds: [
+        "firefox",
+        "firefox-esr",
+        "org.mozilla.firefox",
+        "firefox_firefox",
+      ],
+    },
     isBrowser: true,
   },
   {
@@ -173,6 +187,9 @@ export const allApps: MonitoredAppInfo[] = [
       exePath: "Postman.exe",
       DisplayName: "Postman",
     },
+    linux: {
+      desktopIds: ["Postman", "com.getpostman.Postman", "postman_postman"],
+    },
     isDefaultEnabled: true,
   },
   {
@@ -198,6 +215,9 @@ export const allApps: MonitoredAppInfo[] = [
     mac: {
       bundleId: "com.microsoft.edgemac",
     },
+    linux: {
+      desktopIds: ["microsoft-edge", "com.microsoft.Edge"],
+    },
     isBrowser: true,
   },
   {
@@ -209,6 +229,9 @@ export const allApps: MonitoredAppInfo[] = [
       exePath: "slack.exe",
       DisplayName: "Slack",
     },
+    linux: {
+      desktopIds: ["slack", "com.slack.Slack", "slack_slack"],
+    },
     isElectronApp: true,
   },
   {
@@ -220,6 +243,9 @@ export const allApps: MonitoredAppInfo[] = [
       exePath: "TablePlus.exe",
       DisplayName: "TablePlus",
     },
+    linux: {
+      desktopIds: ["tableplus"],
+    },
     isDefaultEnabled: true,
   },
   {
@@ -240,6 +266,9 @@ export const allApps: MonitoredAppInfo[] = [
     mac: {
       bundleId: "dev.warp.Warp-Stable",
     },
+    linux: {
+      desktopIds: ["dev.warp.Warp"],
+    },
   },
   {
     id: "wecom",
@@ -272,6 +301,9 @@ export const allApps: MonitoredAppInfo[] = [
       exePath: "Zoom.exe",
       DisplayName: "Zoom",
     },
+    linux: {
+      desktopIds: ["Zoom", "us.zoom.Zoom", "zoom-client_zoom-client"],
+    },
     isDefaultEnabled: true,
   },
 ];
@@ -0,0 +1,66 @@
+import { getActiveWindow } from '../helpers/active-window';
+import { RunningProcess } from '../helpers/process-monitor';
+import { ProcessSnapshot } from '../helpers/process-snapshot';
+import type { WindowInfo } from '../utils/types';
+import { Logging, LogLevel } from '../utils/logging';
+import { ProcessWatcher } from './process-watcher';
+
+/**
+ * Activity source that only reports the enrolled program owning the focused
+ * window, so programs left open in the background don't accumulate time
+ */
+export class FocusedWindowWatcher extends ProcessWatcher {
+  protected async getActivePrograms(
+    runningProcesses: Map<string, RunningProcess[]>,
+    snapshot: ProcessSnapshot
+  ): Promise<Map<string, WindowInfo | null>> {
+    let focusedWindow: WindowInfo | null;
+    try {
+      focusedWindow = await getActiveWindow();
+    } catch (error) {
+      Logging.instance().log(
+        `Failed to get focused window, tracking all running programs: ${error}`,
+        LogLevel.WARN
+      );
+      return super.getActivePrograms(runningProcesses, snapshot);
+    }
+
+    const activePrograms = new Map<string, WindowInfo | null>();
+    if (!focusedWindow) {
+      return activePrograms;
+    }
+
+    const owner = this.findWindowOwner(runningProcesses, focusedWindow, snapshot);
+    if (owner) {
+      activePrograms.set(owner, focusedWindow);
+    }
+    return activePrograms;
+  }
+
+  /**
+   * Find the program a window belongs to: the one running the window's process,
+   * or else the closest one that started it (e.g. an IDE started by a launcher
+   * script). An enrolled program started from another, like an IDE launched
+   * from a terminal, owns its own windows.
+   */
+  private findWindowOwner(
+    runningProcesses: Map<string, RunningProcess[]>,
+    window: WindowInfo,
+    snapshot: ProcessSnapshot
+  ): string | null {
+    const owners = new Map<number, string>();
+    for (const [programPath, processes] of runningProcesses) {
+      processes.forEach(proc => owners.set(proc.pid, owners.get(proc.pid) ?? programPath));
+    }
+
+    const windowPid = window.info.processId;
+    const pids = [windowPid, ...snapshot.getAncestors(windowPid).map(proc => proc.pid)];
+    for (const pid of pids) {
+      const owner = owners.get(pid);
+      if (owner) {
+        return owner;
+      }
+    }
+    return null;
+  }
+}
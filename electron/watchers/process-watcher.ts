@@ -1,19 +1,35 @@
-import { ProcessMonitor } from '../helpers/process-monitor';
+import { MonitoredApp } from '../helpers/monitored-app';
+import { ProcessMonitor, RunningProcess } from '../helpers/process-monitor';
+import { ProcessSnapshot } from '../helpers/process-snapshot';
 import { EnrolledProgramsManager } from '../helpers/enrolled-programs-manager';
+import { findOpenProjectFiles, resolveOpenFileEntity } from '../helpers/entity-resolver';
+import { detectLanguage } from '../helpers/language-detector';
+import { detectProject, DetectedProject } from '../helpers/project-detector';
+import { ProgramDiscovery } from '../helpers/program-discovery';
+import { PropertiesManager } from '../helpers/properties-manager';
+import { findTerminalCommand, isTerminal } from '../helpers/terminal-command';
+import { WriteWatcher } from '../helpers/write-watcher';
+import type { WindowInfo } from '../utils/types';
 import { Logging, LogLevel } from '../utils/logging';
-import { Wakatime } from './wakatime';
-import path from 'node:path';
+import { ActivitySource } from './activity-source';
 
-export class ProcessWatcher {
-  private wakatime: Wakatime;
+/**
+ * Activity source that polls the process table and reports every running
+ * enrolled program as active
+ */
+export class ProcessWatcher extends ActivitySource {
   private intervalId: NodeJS.Timeout | null = null;
   private monitoringInterval: number = 60000; // 1 minute
-  private processMonitor: ProcessMonitor;
+  protected processMonitor: ProcessMonitor;
   private enrolledManager: EnrolledProgramsManager;
   private lastReportedPrograms: Set<string> = new Set();
+  private latestSnapshot: ProcessSnapshot | null = null;
+  // Only created while file entities are turned on, since watching reads the
+  // user's project directories
+  private writeWatcher: WriteWatcher | null = null;
 
-  constructor(wakatime: Wakatime) {
-    this.wakatime = wakatime;
+  constructor() {
+    super();
     this.processMonitor = ProcessMonitor.getInstance();
     this.enrolledManager = EnrolledProgramsManager.getInstance();
   }
@@ -47,6 +63,8 @@ export class ProcessWatcher {
     if (this.intervalId) {
       clearInterval(this.intervalId);
       this.intervalId = null;
+      this.writeWatcher?.close();
+      this.writeWatcher = null;
       Logging.instance().log('Stopped process monitoring', LogLevel.INFO);
     }
   }
@@ -68,13 +86,27 @@ export class ProcessWatcher {
    */
   private async checkEnrolledPrograms(): Promise<void> {
     try {
-      const enrolledPaths = this.enrolledManager.getEnrolledPaths();
+      const enrolledPrograms = this.enrolledManager.getAllPrograms();
+      const discovery = PropertiesManager.programDiscovery;
       
-      if (enrolledPaths.length === 0) {
+      if (enrolledPrograms.length === 0 && !discovery) {
         return;
       }
 
-      const runningPrograms = await this.processMonitor.getRunningEnrolledPrograms(enrolledPaths);
+      // Scan the process table once per tick and match every program against it
+      const snapshot = await this.processMonitor.takeSnapshot();
+      this.latestSnapshot = snapshot;
+
+      if (discovery) {
+        ProgramDiscovery.getInstance().record(snapshot, this.monitoringInterval / 1000);
+      }
+
+      if (enrolledPrograms.length === 0) {
+        return;
+      }
+
+      const runningProcesses = await this.processMonitor.getRunningEnrolledProcesses(enrolledPrograms, snapshot);
+      const runningPrograms = Array.from(runningProcesses.keys());
       const currentRunningSet = new Set(runningPrograms);
 
       // Log newly detected programs
@@ -103,9 +135,32 @@ export class ProcessWatcher {
         }
       }
 
-      // Send heartbeats for all running programs
+      const activePrograms = await this.getActivePrograms(runningProcesses, snapshot);
+
+      const projects = new Map<string, DetectedProject>();
+      for (const programPath of runningPrograms) {
+        const project = await this.detectProgramProject(
+          runningProcesses.get(programPath) ?? [],
+          snapshot,
+          activePrograms.get(programPath) ?? undefined
+        );
+        if (project) {
+          projects.set(programPath, project);
+        }
+      }
+      this.updateWriteWatcher(projects);
+
+      // Send heartbeats for the programs in use
       for (const programPath of runningPrograms) {
-        await this.sendProgramHeartbeat(programPath);
+        if (activePrograms.has(programPath)) {
+          await this.sendProgramHeartbeat(
+            programPath,
+            runningProcesses.get(programPath) ?? [],
+            projects.get(programPath) ?? null,
+            snapshot,
+            activePrograms.get(programPath) ?? undefined
+          );
+        }
         // Update last seen timestamp
         this.enrolledManager.updateLastSeen(programPath);
       }
@@ -123,19 +178,44 @@ export class ProcessWatcher {
   }
 
   /**
-   * Send heartbeat for a running program
+   * Decide which running programs are in use this tick, along with the window
+   * they are being used through when known. Every running program counts.
+   */
+  protected async getActivePrograms(
+    runningProcesses: Map<string, RunningProcess[]>,
+    _snapshot: ProcessSnapshot
+  ): Promise<Map<string, WindowInfo | null>> {
+    return new Map(Array.from(runningProcesses.keys()).map(programPath => [programPath, null]));
+  }
+
+  /**
+   * Send heartbeat for a running program, using the title of its focused window when known
    */
-  private async sendProgramHeartbeat(programPath: string): Promise<void> {
+  private async sendProgramHeartbeat(
+    programPath: string,
+    processes: RunningProcess[],
+    project: DetectedProject | null,
+    snapshot: ProcessSnapshot,
+    focusedWindow?: WindowInfo
+  ): Promise<void> {
     try {
       const program = this.enrolledManager.getProgramByPath(programPath);
       if (!program) {
         return;
       }
 
+      const name = program.displayName || program.name;
+
+      // Programs enrolled by pattern are keyed by the pattern, so report the
+      // executable that actually runs
+      const executablePath = program.pattern
+        ? processes[0]?.exe ?? programPath
+        : programPath;
+
       // Create proper app data for the enrolled program matching AppData type
       const appData = {
         id: program.id,
-        name: program.name,
+        name,
         path: programPath,
         icon: null,
         version: null,
@@ -146,46 +226,54 @@ export class ProcessWatcher {
         execName: program.name,
       };
 
-      // Create proper window info for the enrolled program matching WindowInfo type
-      const windowInfo = {
-        id: 0,
-        os: process.platform,
-        title: program.name,
-        position: {
-          x: 0,
-          y: 0,
-          width: 0,
-          height: 0,
-          isFullScreen: false,
-        },
-        usage: {
-          memory: 0,
-          cpu: 0,
-        },
-        url: '',
+      const windowInfo: WindowInfo = {
+        title: focusedWindow?.title ?? name,
         info: {
-          name: program.name,
+          name,
           path: programPath,
-          processId: 0,
+          processId: focusedWindow?.info.processId ?? 0,
         },
-        getIcon: () => Promise.resolve({ data: null }),
-        getIconAsync: () => Promise.resolve({ data: null }),
-      } as any; // Type assertion to bypass complex WindowInfo interface
+      };
+
+      // Window titles usually lead with the open document, which makes a
+      // better entity than the executable
+      const heartbeatData = focusedWindow ? MonitoredApp.heartbeatData(windowInfo, appData) : null;
+
+      // The file being edited is the most useful entity, when we can find it
+      const openFiles = project && PropertiesManager.resolveFileEntities
+        ? await findOpenProjectFiles(
+          processes.map(proc => proc.pid),
+          project.root,
+          PropertiesManager.entityExcludeGlobList
+        )
+        : [];
+
+      // An open file saved since the last heartbeat is what the user is working on
+      const writtenFile = project ? this.writeWatcher?.takeWrite(project.root, openFiles) ?? null : null;
+      const file = writtenFile ?? await resolveOpenFileEntity(openFiles);
+
+      // A terminal running a build or tests is reported as doing that, in the
+      // project the command runs in
+      const terminalCommand = isTerminal(processes) ? findTerminalCommand(processes, snapshot) : null;
+      if (terminalCommand?.process.cwd) {
+        project = await detectProject(terminalCommand.process.cwd) ?? project;
+      }
 
-      // Send heartbeat to WakaTime
-      this.wakatime.sendHeartbeat({
+      // Report the activity to listeners
+      await this.emitActivity({
         appData: appData,
         windowInfo: windowInfo,
-        project: program.name,
-        entity: programPath,
-        entityType: 'app' as const,
-        category: 'coding', // Default category
-        language: this.determineLanguageFromPath(programPath),
-        isWrite: false, // We can't detect write activity from process monitoring
+        project: program.project || project?.name || name,
+        entity: file ?? terminalCommand?.command ?? heartbeatData?.entity ?? executablePath,
+        entityType: program.entityType ?? (file ? 'file' : 'app'),
+        category: program.category ?? terminalCommand?.category ?? 'coding',
+        language: detectLanguage(file, program.language),
+        isWrite: writtenFile !== null,
+        pluginName: program.pluginName,
       });
 
       Logging.instance().log(
-        `Sent heartbeat for ${program.name}`,
+        `Reported activity for ${name}`,
         LogLevel.DEBUG
       );
 
@@ -199,46 +287,46 @@ export class ProcessWatcher {
   }
 
   /**
-   * Determine programming language from executable path
+   * Watch the project of every running program for saved files, while file
+   * entities are turned on. Saves are matched against the files a program has
+   * open, which can only be listed on Linux.
    */
-  private determineLanguageFromPath(programPath: string): string {
-    const programName = path.basename(programPath).toLowerCase();
-    
-    // Map common IDE/editor names to languages
-    const languageMap: { [key: string]: string } = {
-      'code': 'TypeScript', // VS Code
-      'code-oss': 'TypeScript',
-      'codium': 'TypeScript',
-      'vim': 'Vim Script',
-      'nvim': 'Vim Script',
-      'neovim': 'Vim Script',
-      'emacs': 'Emacs Lisp',
-      'nano': 'Text',
-      'gedit': 'Text',
-      'kate': 'Text',
-      'atom': 'Text',
-      'sublime_text': 'Text',
-      'webstorm': 'JavaScript',
-      'phpstorm': 'PHP',
-      'pycharm': 'Python',
-      'intellij': 'Java',
-      'eclipse': 'Java',
-      'netbeans': 'Java',
-      'rider': 'C#',
-      'clion': 'C++',
-      'goland': 'Go',
-      'rubymine': 'Ruby',
-    };
-
-    // Check for exact matches
-    for (const [key, language] of Object.entries(languageMap)) {
-      if (programName.includes(key)) {
-        return language;
-      }
+  private updateWriteWatcher(projects: Map<string, DetectedProject>): void {
+    if (!PropertiesManager.resolveFileEntities || process.platform !== 'linux') {
+      this.writeWatcher?.close();
+      this.writeWatcher = null;
+      return;
     }
 
-    // Default to generic programming language
-    return 'Other';
+    this.writeWatcher = this.writeWatcher ?? new WriteWatcher();
+    this.writeWatcher.setWatchedRoots(new Set(Array.from(projects.values()).map(project => project.root)));
+  }
+
+  /**
+   * Find the project a program is working in from the working directory of
+   * its processes, preferring the process that owns the focused window
+   */
+  private async detectProgramProject(
+    processes: RunningProcess[],
+    snapshot: ProcessSnapshot,
+    focusedWindow?: WindowInfo
+  ): Promise<DetectedProject | null> {
+    const windowProcess = focusedWindow ? snapshot.getProcess(focusedWindow.info.processId) : undefined;
+    const candidates = windowProcess ? [windowProcess, ...processes] : processes;
+
+    const checked = new Set<string>();
+    for (const proc of candidates) {
+      if (!proc.cwd || checked.has(proc.cwd)) {
+        continue;
+      }
+      checked.add(proc.cwd);
+
+      const project = await detectProject(proc.cwd);
+      if (project) {
+        return project;
+      }
+    }
+    return null;
   }
 
   /**
@@ -255,6 +343,14 @@ export class ProcessWatcher {
     return this.monitoringInterval;
   }
 
+  /**
+   * Get the process snapshot taken during the most recent check, so other
+   * consumers don't need to scan the process table again
+   */
+  getLatestSnapshot(): ProcessSnapshot | null {
+    return this.latestSnapshot;
+  }
+
   /**
    * Get list of currently detected running programs
    */
@@ -3,35 +3,40 @@ import { app, nativeImage, Notification, shell, Tray } from "electron";
 import isDev from "electron-is-dev";
 import { autoUpdater } from "electron-updater";
 
-import type { Category, EntityType } from "../utils/types";
+import type { Heartbeat, WindowInfo } from "../utils/types";
 import type { AppData } from "../utils/validators";
+import type { Activity } from "./activity-source";
 import { AppsManager } from "../helpers/apps-manager";
 import { ConfigFile } from "../helpers/config-file";
 import { Dependencies } from "../helpers/dependencies";
+import { HeartbeatBatcher } from "../helpers/heartbeat-batcher";
+import { HeartbeatQueue } from "../helpers/heartbeat-queue";
+import { HeartbeatThrottle } from "../helpers/heartbeat-throttle";
 import { MonitoringManager } from "../helpers/monitoring-manager";
 import { PropertiesManager } from "../helpers/properties-manager";
 import { SettingsManager } from "../helpers/settings-manager";
-import { exec, getCLIPath, getDeepLinkUrl, getPlatfrom } from "../utils";
+import {
+  exec,
+  execFileWithStatus,
+  getCLIPath,
+  getDeepLinkUrl,
+  getPlatfrom,
+} from "../utils";
 import { DeepLink } from "../utils/constants";
 import { Logging, LogLevel } from "../utils/logging";
 
-// Local WindowInfo interface for compatibility
-interface WindowInfo {
-  url?: string;
-  title: string;
-  info: {
-    name: string;
-    path: string;
-    processId: number;
-  };
-}
+// wakatime-cli exit codes for heartbeats it saved to its own offline queue
+const CLI_EXIT_CODE_API_ERROR = 102;
+const CLI_EXIT_CODE_BACKOFF = 112;
 
 export class Wakatime {
-  private lastEntitiy = "";
-  private lastTime: number = 0;
   private lastCodeTimeFetched: number = 0;
   private lastCodeTimeText = "";
-  private lastCategory: Category = "coding";
+  private toolTipText = "Wakatime";
+  private batcher = new HeartbeatBatcher((heartbeats) =>
+    this.sendBatch(heartbeats),
+  );
+  private throttle = new HeartbeatThrottle();
   private tray?: Tray | null;
   private versionString: string;
   private lastCheckedForUpdates: number = 0;
@@ -50,6 +55,9 @@ export class Wakatime {
   init(tray: Tray | null) {
     this.tray = tray;
 
+    HeartbeatQueue.instance().onChange(() => this.setToolTip(this.toolTipText));
+    HeartbeatQueue.instance().scheduleReplay(this.sendQueuedHeartbeats);
+
     if (PropertiesManager.shouldLogToFile) {
       Logging.instance().activateLoggingToFile();
     }
@@ -116,36 +124,15 @@ export class Wakatime {
     shell.openExternal(getDeepLinkUrl(DeepLink.settings));
   }
 
-  private shouldSendHeartbeat(
-    entity: string,
-    time: number,
-    isWrite: boolean,
-    category: Category,
-  ) {
-    if (isWrite) {
-      return true;
-    }
-    if (category !== this.lastCategory) {
-      return true;
-    }
-    if (entity && this.lastEntitiy !== entity) {
-      return true;
-    }
-    if (this.lastTime + 120 < time) {
-      return true;
-    }
+  /**
+   * Forget recently sent heartbeats, so the next ones aren't throttled against
+   * activity from before the user went away
+   */
+  resetHeartbeatState() {
+    this.throttle.reset();
   }
 
-  async sendHeartbeat(props: {
-    appData?: AppData;
-    windowInfo: WindowInfo;
-    entity: string;
-    entityType: EntityType;
-    category: Category | null;
-    project: string | null;
-    language: string | null;
-    isWrite: boolean;
-  }) {
+  async sendHeartbeat(props: Activity) {
     const {
       appData,
       entity,
@@ -158,9 +145,6 @@ export class Wakatime {
     const category = props.category ?? "coding";
     const time = Date.now() / 1000;
 
-    if (!this.shouldSendHeartbeat(entity, time, isWrite, category)) {
-      return;
-    }
     if (!MonitoringManager.isMonitored(windowInfo.info.path)) {
       return;
     }
@@ -170,119 +154,238 @@ export class Wakatime {
       return;
     }
 
-    this.lastEntitiy = entity;
-    this.lastCategory = category;
-    this.lastTime = time;
+    const throttleKey = { appPath: windowInfo.info.path, entity, category };
+    if (!this.throttle.shouldSend(throttleKey, time, isWrite)) {
+      return;
+    }
+
+    const heartbeat: Heartbeat = {
+      entity,
+      entityType,
+      category,
+      project,
+      language,
+      isWrite,
+      plugin: this.pluginString(appData, windowInfo, props.pluginName),
+      time,
+    };
+
+    this.batcher.add(heartbeat);
+  }
+
+  /**
+   * Move heartbeats still waiting to be batched to the offline queue, so they
+   * are sent on the next start instead of lost when the app quits
+   */
+  flushPendingHeartbeats() {
+    const pending = this.batcher.takePending();
+    if (pending.length > 0) {
+      HeartbeatQueue.instance().enqueue(...pending);
+    }
+  }
+
+  private async sendBatch(heartbeats: Heartbeat[]) {
+    if (await this.runHeartbeats(heartbeats)) {
+      // The CLI works again, so catch up on anything that failed before
+      void HeartbeatQueue.instance().replay(this.sendQueuedHeartbeats);
+    } else {
+      HeartbeatQueue.instance().enqueue(...heartbeats);
+      HeartbeatQueue.instance().scheduleReplay(this.sendQueuedHeartbeats);
+    }
+
+    await this.fetchToday();
+    this.checkForUpdates();
+  }
+
+  // Field names wakatime-cli expects for heartbeats passed on stdin
+  private extraHeartbeatJSON(heartbeat: Heartbeat) {
+    return {
+      entity: heartbeat.entity,
+      type: heartbeat.entityType,
+      category: heartbeat.category,
+      time: heartbeat.time,
+      is_write: heartbeat.isWrite,
+      project: heartbeat.project ?? undefined,
+      language: heartbeat.language ?? undefined,
+      user_agent: heartbeat.plugin,
+    };
+  }
 
+  private heartbeatArgs(heartbeat: Heartbeat) {
     const args: string[] = [
       "--entity",
-      entity,
+      heartbeat.entity,
       "--entity-type",
-      entityType,
+      heartbeat.entityType,
       "--category",
-      category,
+      heartbeat.category,
       "--plugin",
-      `${this.pluginString(appData, windowInfo)}`,
+      heartbeat.plugin,
+      "--time",
+      `${heartbeat.time}`,
     ];
 
-    if (project) {
-      args.push("--project", project);
+    if (heartbeat.project) {
+      args.push("--project", heartbeat.project);
     }
-    if (isWrite) {
+    if (heartbeat.isWrite) {
       args.push("--write");
     }
-    if (language) {
-      args.push("--language", language);
+    if (heartbeat.language) {
+      args.push("--language", heartbeat.language);
     }
+    return args;
+  }
 
+  /**
+   * Hand heartbeats to wakatime-cli in one invocation, the first as arguments
+   * and the rest as JSON on stdin. Returns false when the CLI didn't take
+   * them, in which case they should be queued and retried. Errors are only
+   * shown to the user when `notify` is set, so replays don't repeat them.
+   */
+  private async runHeartbeats(heartbeats: Heartbeat[], notify = true) {
+    const [first, ...extra] = heartbeats;
+    if (!first) {
+      return true;
+    }
+    const args = this.heartbeatArgs(first);
+    let input: string | undefined;
+    if (extra.length > 0) {
+      args.push("--extra-heartbeats");
+      input = JSON.stringify(extra.map(this.extraHeartbeatJSON));
+    }
     const cli = getCLIPath();
-    Logging.instance().log(`Sending heartbeat: ${cli} ${args}`);
+    Logging.instance().log(
+      `Sending ${heartbeats.length} heartbeat(s): ${cli} ${args}`,
+    );
 
     try {
-      const [output, err] = await exec(cli, ...args);
+      const {
+        stdout: output,
+        stderr,
+        exitCode,
+        error,
+      } = await execFileWithStatus(cli, args, input);
+
+      // The CLI keeps heartbeats in its own offline queue when the API is
+      // unreachable, so those were accepted as far as we're concerned
+      if (
+        exitCode === CLI_EXIT_CODE_API_ERROR ||
+        exitCode === CLI_EXIT_CODE_BACKOFF
+      ) {
+        Logging.instance().log(
+          `wakatime-cli saved heartbeats offline (exit code ${exitCode})`,
+        );
+        return true;
+      }
+
+      const err = error ? `${error}${stderr ? ` ${stderr}` : ""}` : "";
       if (err) {
         Logging.instance().log(
           `Error sending heartbeat: ${err}`,
           LogLevel.ERROR,
         );
-        this.tray?.displayBalloon({
-          icon: nativeImage.createFromPath(
-            path.join(process.env.VITE_PUBLIC!, "trayIcon.png"),
-          ),
-          title: "WakaTime Error",
-          content: `Error when running wakatime-cli: ${err}`,
-        });
-        if (`${err}`.includes("ENOENT")) {
-          this.tray?.setImage(
-            nativeImage.createFromPath(
-              path.join(process.env.VITE_PUBLIC!, "trayIconRed.png"),
-            ),
-          );
-          if (Notification.isSupported()) {
-            const notification = new Notification({
-              title: "WakaTime Error",
-              body: "Unable to execute WakaTime cli. Please make sure WakaTime is not being blocked by AV software.",
-              icon: nativeImage.createFromPath(
-                path.join(process.env.VITE_PUBLIC!, "trayIconRed.png"),
-              ),
-            });
-            notification.show();
-          }
-        } else if (`${err}`.includes("EPERM")) {
-          this.tray?.setImage(
-            nativeImage.createFromPath(
-              path.join(process.env.VITE_PUBLIC!, "trayIconRed.png"),
-            ),
-          );
-          if (Notification.isSupported()) {
-            const notification = new Notification({
-              title: "WakaTime Error",
-              body: "Microsoft Defender is blocking WakaTime. Please allow WakaTime to run so it can upload code stats to your dashboard.",
-              icon: nativeImage.createFromPath(
-                path.join(process.env.VITE_PUBLIC!, "trayIconRed.png"),
-              ),
-            });
-            notification.show();
-          }
+        if (notify) {
+          this.showHeartbeatError(err);
         }
-      } else {
-        this.tray?.setImage(
-          nativeImage.createFromPath(
-            path.join(process.env.VITE_PUBLIC!, "trayIcon.png"),
-          ),
-        );
+        return false;
       }
-      if (output) {
+
+      this.tray?.setImage(
+        nativeImage.createFromPath(
+          path.join(process.env.VITE_PUBLIC!, "trayIcon.png"),
+        ),
+      );
+      if (output || stderr) {
         Logging.instance().log(
-          `Output from wakatime-cli when sending heartbeat: ${output}`,
+          `Output from wakatime-cli when sending heartbeat: ${output || stderr}`,
           LogLevel.ERROR,
           true,
         );
       }
+      return true;
     } catch (error) {
       Logging.instance().log(
         `Exception when sending heartbeat: ${error}`,
         LogLevel.ERROR,
         true,
       );
+      return false;
+    }
+  }
+
+  private showHeartbeatError(err: string) {
+    this.tray?.displayBalloon({
+      icon: nativeImage.createFromPath(
+        path.join(process.env.VITE_PUBLIC!, "trayIcon.png"),
+      ),
+      title: "WakaTime Error",
+      content: `Error when running wakatime-cli: ${err}`,
+    });
+    if (`${err}`.includes("ENOENT")) {
+      this.tray?.setImage(
+        nativeImage.createFromPath(
+          path.join(process.env.VITE_PUBLIC!, "trayIconRed.png"),
+        ),
+      );
+      if (Notification.isSupported()) {
+        const notification = new Notification({
+          title: "WakaTime Error",
+          body: "Unable to execute WakaTime cli. Please make sure WakaTime is not being blocked by AV software.",
+          icon: nativeImage.createFromPath(
+            path.join(process.env.VITE_PUBLIC!, "trayIconRed.png"),
+          ),
+        });
+        notification.show();
+      }
+    } else if (`${err}`.includes("EPERM")) {
+      this.tray?.setImage(
+        nativeImage.createFromPath(
+          path.join(process.env.VITE_PUBLIC!, "trayIconRed.png"),
+        ),
+      );
+      if (Notification.isSupported()) {
+        const notification = new Notification({
+          title: "WakaTime Error",
+          body: "Microsoft Defender is blocking WakaTime. Please allow WakaTime to run so it can upload code stats to your dashboard.",
+          icon: nativeImage.createFromPath(
+            path.join(process.env.VITE_PUBLIC!, "trayIconRed.png"),
+          ),
+        });
+        notification.show();
+      }
     }
+  }
 
-    await this.fetchToday();
-    this.checkForUpdates();
+  // Replays don't notify, the error was already shown when it first failed
+  private sendQueuedHeartbeats = (heartbeats: Heartbeat[]) =>
+    this.runHeartbeats(heartbeats, false);
+
+  /**
+   * Set the tray tooltip, noting any heartbeats waiting in the offline queue
+   */
+  private setToolTip(text: string) {
+    this.toolTipText = text;
+    const queued = HeartbeatQueue.instance().size;
+    this.tray?.setToolTip(
+      queued > 0
+        ? `${text}\n${queued} heartbeat${queued === 1 ? "" : "s"} queued offline`
+        : text,
+    );
   }
 
   public async fetchToday() {
     if (!PropertiesManager.showCodeTimeInStatusBar) {
       // tray.setTitle is only available on darwin/macOS
       this.tray?.setTitle("");
-      this.tray?.setToolTip("Wakatime");
+      this.setToolTip("Wakatime");
       return;
     }
 
     const time = Date.now() / 1000;
     if (this.lastCodeTimeFetched + 120 > time) {
       this.tray?.setTitle(` ${this.lastCodeTimeText}`);
-      this.tray?.setToolTip(` ${this.lastCodeTimeText}`);
+      this.setToolTip(` ${this.lastCodeTimeText}`);
       return;
     }
 
@@ -310,7 +413,7 @@ export class Wakatime {
       }
       this.lastCodeTimeText = output;
       this.tray?.setTitle(` ${output}`);
-      this.tray?.setToolTip(` ${output}`);
+      this.setToolTip(` ${output}`);
     } catch (error) {
       Logging.instance().log(
         `Failed to fetch code time: ${error}`,
@@ -387,8 +490,12 @@ export class Wakatime {
     await autoUpdater.checkForUpdatesAndNotify();
   }
 
-  pluginString(appData?: AppData, windowInfo?: WindowInfo) {
-    const appName = windowInfo?.info.name || appData?.name;
+  pluginString(
+    appData?: AppData,
+    windowInfo?: WindowInfo,
+    pluginName?: string,
+  ) {
+    const appName = pluginName || windowInfo?.info.name || appData?.name;
     if (!appName) {
       return this.versionString;
     }
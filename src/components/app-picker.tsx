@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+
+import type {
+  EnrollableApp,
+  EnrollableApps,
+} from "../../electron/helpers/enrollable-apps";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { IpcKeys } from "../../electron/utils/constants";
+
+function AppRow({
+  app,
+  onSelect,
+}: {
+  app: EnrollableApp;
+  onSelect: (app: EnrollableApp) => void;
+}) {
+  return (
+    <li>
+      <button
+        type="button"
+        className="hover:bg-muted flex w-full cursor-pointer items-center gap-3 rounded px-2 py-1.5 text-left"
+        onClick={() => onSelect(app)}
+      >
+        {app.icon ? (
+          <img src={app.icon} alt="" className="h-6 w-6 shrink-0" />
+        ) : (
+          <div className="bg-muted h-6 w-6 shrink-0 rounded" />
+        )}
+        <div className="min-w-0">
+          <p className="text-foreground truncate text-sm">{app.name}</p>
+          <p className="text-muted-foreground truncate text-xs">{app.path}</p>
+        </div>
+      </button>
+    </li>
+  );
+}
+
+export function AppPicker({
+  onSelect,
+  onBrowse,
+  onCancel,
+}: {
+  onSelect: (app: EnrollableApp) => void;
+  onBrowse: () => void;
+  onCancel: () => void;
+}) {
+  const [apps, setApps] = useState<EnrollableApps | null>(null);
+  const [search, setSearch] = useState("");
+
+  useEffect(() => {
+    window.ipcRenderer
+      ?.invoke(IpcKeys.getEnrollableApps)
+      .then((apps: EnrollableApps) => setApps(apps));
+  }, []);
+
+  const query = search.trim().toLowerCase();
+  const matches = (app: EnrollableApp) =>
+    !query ||
+    app.name.toLowerCase().includes(query) ||
+    app.path.toLowerCase().includes(query);
+
+  const sections = [
+    { title: "Running now", apps: apps?.running.filter(matches) ?? [] },
+    { title: "Installed", apps: apps?.installed.filter(matches) ?? [] },
+  ];
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <h3 className="text-foreground font-medium">Add program</h3>
+      <Input
+        autoFocus
+        className="h-8"
+        placeholder="Search by name or path"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+      />
+      <div className="max-h-80 space-y-3 overflow-y-auto">
+        {!apps ? (
+          <p className="text-muted-foreground text-sm">Looking for apps...</p>
+        ) : (
+          sections.map(
+            (section) =>
+              section.apps.length > 0 && (
+                <div key={section.title}>
+                  <h4 className="text-muted-foreground mb-1 text-xs font-medium uppercase">
+                    {section.title}
+                  </h4>
+                  <ul>
+                    {section.apps.map((app) => (
+                      <AppRow key={app.path} app={app} onSelect={onSelect} />
+                    ))}
+                  </ul>
+                </div>
+              ),
+          )
+        )}
+        {apps && sections.every((section) => section.apps.length === 0) && (
+          <p className="text-muted-foreground text-sm">
+            No apps found. Browse for the program file instead.
+          </p>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="cursor-pointer"
+          onClick={onBrowse}
+        >
+          Browse...
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="cursor-pointer"
+          onClick={onCancel}
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState } from "react";
+
+import type { MatchRule } from "../../electron/helpers/enrolled-programs-manager";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+
+const ruleFields: {
+  key: keyof MatchRule;
+  label: string;
+  placeholder: string;
+}[] = [
+  { key: "interpreter", label: "Interpreter", placeholder: "python" },
+  {
+    key: "argsPattern",
+    label: "Arguments (regex)",
+    placeholder: "-m jupyter|jupyter-lab",
+  },
+  {
+    key: "cwdGlob",
+    label: "Working directory (glob)",
+    placeholder: "~/projects/**",
+  },
+  { key: "parentName", label: "Parent process", placeholder: "idea.sh" },
+];
+
+function isValidRegExp(pattern?: string) {
+  if (!pattern) {
+    return true;
+  }
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch (_error) {
+    return false;
+  }
+}
+
+export function MatchRulesEditor({
+  rules: initialRules,
+  onSave,
+}: {
+  rules: MatchRule[];
+  onSave: (rules: MatchRule[]) => void;
+}) {
+  const [rules, setRules] = useState<MatchRule[]>(initialRules);
+
+  const updateRule = (index: number, key: keyof MatchRule, value: string) => {
+    setRules((rules) =>
+      rules.map((rule, i) =>
+        i === index ? { ...rule, [key]: value || undefined } : rule,
+      ),
+    );
+  };
+
+  const isValid = rules.every((rule) => isValidRegExp(rule.argsPattern));
+
+  return (
+    <div className="space-y-3">
+      <p className="text-muted-foreground text-xs">
+        Match processes that run this program through an interpreter or wrapper.
+        A rule matches when all of its fields match; leave a field empty to
+        ignore it. Programs with rules are only matched by their rules.
+      </p>
+      {rules.map((rule, index) => (
+        <div key={index} className="space-y-2 rounded-md border p-3">
+          <div className="grid grid-cols-2 gap-2">
+            {ruleFields.map((field) => (
+              <fieldset key={field.key} className="flex flex-col gap-1">
+                <Label className="text-xs">{field.label}</Label>
+                <Input
+                  className="h-8"
+                  value={rule[field.key] ?? ""}
+                  placeholder={field.placeholder}
+                  onChange={(e) =>
+                    updateRule(index, field.key, e.currentTarget.value)
+                  }
+                />
+              </fieldset>
+            ))}
+          </div>
+          {!isValidRegExp(rule.argsPattern) && (
+            <p className="text-destructive text-xs">
+              Arguments pattern is not a valid regular expression
+            </p>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            className="cursor-pointer"
+            onClick={() =>
+              setRules((rules) => rules.filter((_, i) => i !== index))
+            }
+          >
+            Remove rule
+          </Button>
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="cursor-pointer"
+          onClick={() => setRules((rules) => [...rules, {}])}
+        >
+          Add rule
+        </Button>
+        <Button
+          size="sm"
+          className="cursor-pointer"
+          disabled={!isValid}
+          onClick={() => onSave(rules)}
+        >
+          Save rules
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { useState } from "react";
+
+import type { ProfileImportPreview as Preview } from "../../electron/helpers/profile-manager";
+import { Button } from "~/components/ui/button";
+import { Checkbox } from "~/components/ui/checkbox";
+
+export function ProfileImportPreview({
+  preview,
+  onImport,
+  onCancel,
+}: {
+  preview: Preview;
+  onImport: (includeFilters: boolean) => void;
+  onCancel: () => void;
+}) {
+  const [includeFilters, setIncludeFilters] = useState(false);
+
+  const importable = preview.entries.filter(
+    (entry) => entry.resolvedPath && !entry.alreadyEnrolled,
+  );
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <h3 className="text-foreground font-medium">Import profile</h3>
+      <ul className="space-y-2">
+        {preview.entries.map((entry, index) => (
+          <li key={index} className="text-sm">
+            <div className="flex items-center gap-2">
+              <span className="text-foreground font-medium">{entry.name}</span>
+              {!entry.resolvedPath ? (
+                <span className="bg-destructive/10 text-destructive rounded px-2 py-0.5 text-xs">
+                  Not found
+                </span>
+              ) : entry.alreadyEnrolled ? (
+                <span className="bg-muted text-muted-foreground rounded px-2 py-0.5 text-xs">
+                  Already enrolled
+                </span>
+              ) : (
+                <span className="rounded bg-green-100 px-2 py-0.5 text-xs text-green-800 dark:bg-green-900/50 dark:text-green-300">
+                  Will be enrolled
+                </span>
+              )}
+            </div>
+            <p className="text-muted-foreground truncate text-xs">
+              {entry.resolvedPath ?? entry.path}
+            </p>
+          </li>
+        ))}
+      </ul>
+      {preview.hasFilters && (
+        <label className="text-muted-foreground flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={includeFilters}
+            onCheckedChange={(checked) => setIncludeFilters(checked === true)}
+          />
+          Also replace my browser filter lists and ignored files
+        </label>
+      )}
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          className="cursor-pointer"
+          disabled={importable.length === 0 && !includeFilters}
+          onClick={() => onImport(includeFilters)}
+        >
+          Import {importable.length} program
+          {importable.length !== 1 ? "s" : ""}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="cursor-pointer"
+          onClick={onCancel}
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
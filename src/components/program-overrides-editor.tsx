@@ -0,0 +1,127 @@
+import { useState } from "react";
+
+import type { EnrolledProgramSettings } from "../../electron/helpers/enrolled-programs-manager";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { categories, entityTypes } from "../../electron/utils/types";
+
+export type ProgramOverrides = Pick<
+  EnrolledProgramSettings,
+  | "displayName"
+  | "category"
+  | "project"
+  | "language"
+  | "entityType"
+  | "pluginName"
+>;
+
+const textFields: {
+  key: "displayName" | "project" | "language" | "pluginName";
+  label: string;
+  placeholder: string;
+}[] = [
+  { key: "displayName", label: "Display name", placeholder: "Program name" },
+  { key: "project", label: "Project", placeholder: "Detect from folder" },
+  { key: "language", label: "Language", placeholder: "Detect from file" },
+  { key: "pluginName", label: "Plugin name", placeholder: "Display name" },
+];
+
+const selectClassName =
+  "flex h-8 w-full rounded-md border border-input bg-background px-3 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+export function ProgramOverridesEditor({
+  overrides: initialOverrides,
+  onSave,
+}: {
+  overrides: ProgramOverrides;
+  onSave: (overrides: ProgramOverrides) => void;
+}) {
+  const [overrides, setOverrides] =
+    useState<ProgramOverrides>(initialOverrides);
+
+  const updateOverride = <K extends keyof ProgramOverrides>(
+    key: K,
+    value: ProgramOverrides[K],
+  ) => {
+    setOverrides((overrides) => ({ ...overrides, [key]: value || undefined }));
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-muted-foreground text-xs">
+        Change what is reported to WakaTime for this program. Leave a field
+        empty to use the detected value.
+      </p>
+      <div className="grid grid-cols-2 gap-2">
+        {textFields.map((field) => (
+          <fieldset key={field.key} className="flex flex-col gap-1">
+            <Label className="text-xs">{field.label}</Label>
+            <Input
+              className="h-8"
+              value={overrides[field.key] ?? ""}
+              placeholder={field.placeholder}
+              onChange={(e) => updateOverride(field.key, e.currentTarget.value)}
+            />
+          </fieldset>
+        ))}
+        <fieldset className="flex flex-col gap-1">
+          <Label className="text-xs">Category</Label>
+          <select
+            className={selectClassName}
+            value={overrides.category ?? ""}
+            onChange={(e) =>
+              updateOverride(
+                "category",
+                e.currentTarget.value as ProgramOverrides["category"],
+              )
+            }
+          >
+            <option value="">coding (default)</option>
+            {categories.map((category) => (
+              <option key={category} value={category}>
+                {category}
+              </option>
+            ))}
+          </select>
+        </fieldset>
+        <fieldset className="flex flex-col gap-1">
+          <Label className="text-xs">Entity type</Label>
+          <select
+            className={selectClassName}
+            value={overrides.entityType ?? ""}
+            onChange={(e) =>
+              updateOverride(
+                "entityType",
+                e.currentTarget.value as ProgramOverrides["entityType"],
+              )
+            }
+          >
+            <option value="">Detect</option>
+            {entityTypes.map((entityType) => (
+              <option key={entityType} value={entityType}>
+                {entityType}
+              </option>
+            ))}
+          </select>
+        </fieldset>
+      </div>
+      <Button
+        size="sm"
+        className="cursor-pointer"
+        onClick={() =>
+          onSave(
+            Object.fromEntries(
+              Object.entries(overrides).map(([key, value]) => [
+                key,
+                value?.trim() || undefined,
+              ]),
+            ),
+          )
+        }
+      >
+        Save details
+      </Button>
+    </div>
+  );
+}
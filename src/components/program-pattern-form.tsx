@@ -0,0 +1,103 @@
+import { useState } from "react";
+
+import type {
+  ProgramPattern,
+  ProgramPatternType,
+} from "../../electron/helpers/program-pattern";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+
+const patternTypes: {
+  type: ProgramPatternType;
+  label: string;
+  placeholder: string;
+}[] = [
+  {
+    type: "glob",
+    label: "Path glob",
+    placeholder: "~/.local/share/JetBrains/Toolbox/apps/*/bin/*.sh",
+  },
+  { type: "execName", label: "Name on PATH", placeholder: "nvim" },
+  {
+    type: "flatpak",
+    label: "Flatpak app id",
+    placeholder: "com.visualstudio.code",
+  },
+  { type: "snap", label: "Snap name", placeholder: "code" },
+];
+
+const selectClassName =
+  "flex h-8 rounded-md border border-input bg-background px-3 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+export function ProgramPatternForm({
+  onSave,
+  onCancel,
+}: {
+  onSave: (pattern: ProgramPattern) => void;
+  onCancel: () => void;
+}) {
+  const [pattern, setPattern] = useState<ProgramPattern>({
+    type: "glob",
+    value: "",
+  });
+
+  const placeholder = patternTypes.find(
+    (patternType) => patternType.type === pattern.type,
+  )?.placeholder;
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <h3 className="text-foreground font-medium">Add program by pattern</h3>
+      <p className="text-muted-foreground text-xs">
+        For programs whose path changes between versions or installs. The
+        pattern is checked again every time running programs are scanned.
+      </p>
+      <div className="flex gap-2">
+        <select
+          className={selectClassName}
+          value={pattern.type}
+          onChange={(e) =>
+            setPattern((pattern) => ({
+              ...pattern,
+              type: e.target.value as ProgramPatternType,
+            }))
+          }
+        >
+          {patternTypes.map((patternType) => (
+            <option key={patternType.type} value={patternType.type}>
+              {patternType.label}
+            </option>
+          ))}
+        </select>
+        <Input
+          className="h-8 flex-1"
+          placeholder={placeholder}
+          value={pattern.value}
+          onChange={(e) =>
+            setPattern((pattern) => ({ ...pattern, value: e.target.value }))
+          }
+        />
+      </div>
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          className="cursor-pointer"
+          disabled={!pattern.value.trim()}
+          onClick={() =>
+            onSave({ type: pattern.type, value: pattern.value.trim() })
+          }
+        >
+          Add
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="cursor-pointer"
+          onClick={onCancel}
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
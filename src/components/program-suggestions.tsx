@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useState } from "react";
+
+import type { ProgramSuggestion } from "../../electron/helpers/program-discovery";
+import { Button } from "~/components/ui/button";
+import { Checkbox } from "~/components/ui/checkbox";
+import { IpcKeys } from "../../electron/utils/constants";
+
+function formatDuration(seconds: number) {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours} h ${minutes} min` : `${minutes} min`;
+}
+
+export function ProgramSuggestions({
+  onEnroll,
+}: {
+  onEnroll: (suggestion: ProgramSuggestion) => void;
+}) {
+  const [discovery, setDiscovery] = useState(false);
+  const [suggestions, setSuggestions] = useState<ProgramSuggestion[]>([]);
+
+  const loadSuggestions = useCallback(() => {
+    setSuggestions(
+      window.ipcRenderer?.sendSync(IpcKeys.getProgramSuggestions) ?? [],
+    );
+  }, []);
+
+  useEffect(() => {
+    setDiscovery(
+      window.ipcRenderer?.sendSync(IpcKeys.getProgramDiscovery) === true,
+    );
+    loadSuggestions();
+  }, [loadSuggestions]);
+
+  const handleDiscoveryChange = (value: boolean) => {
+    window.ipcRenderer?.send(IpcKeys.setProgramDiscovery, value);
+    setDiscovery(value);
+    if (!value) {
+      setSuggestions([]);
+    }
+  };
+
+  const handleEnroll = (suggestion: ProgramSuggestion) => {
+    onEnroll(suggestion);
+    loadSuggestions();
+  };
+
+  return (
+    <div className="mb-6 space-y-3">
+      <label className="text-muted-foreground flex items-center gap-2 text-sm">
+        <Checkbox
+          checked={discovery}
+          onCheckedChange={(checked) => handleDiscoveryChange(checked === true)}
+        />
+        Suggest apps I use that aren't enrolled. What runs is only kept on this
+        computer, for a week.
+      </label>
+      {discovery && suggestions.length > 0 && (
+        <div className="rounded-lg border p-4">
+          <h3 className="text-foreground mb-2 font-medium">Suggested</h3>
+          <ul className="space-y-2">
+            {suggestions.map((suggestion) => (
+              <li
+                key={suggestion.path}
+                className="flex items-center justify-between gap-3"
+              >
+                <div className="flex min-w-0 items-center gap-3">
+                  {suggestion.icon ? (
+                    <img src={suggestion.icon} alt="" className="h-6 w-6" />
+                  ) : (
+                    <div className="bg-muted h-6 w-6 rounded" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-foreground truncate text-sm">
+                      {suggestion.name}
+                    </p>
+                    <p className="text-muted-foreground text-xs">
+                      Running {formatDuration(suggestion.seconds)} this week
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="cursor-pointer"
+                  onClick={() => handleEnroll(suggestion)}
+                >
+                  Enroll
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,16 @@
 import { useCallback, useEffect, useState } from "react";
 import { Button } from "~/components/ui/button";
+import { Checkbox } from "~/components/ui/checkbox";
+import { AppPicker } from "~/components/app-picker";
+import { ProgramSuggestions } from "~/components/program-suggestions";
+import { MatchRulesEditor } from "~/components/match-rules-editor";
+import { ProgramOverrides, ProgramOverridesEditor } from "~/components/program-overrides-editor";
+import { ProfileImportPreview } from "~/components/profile-import-preview";
+import { ProgramPatternForm } from "~/components/program-pattern-form";
+import type { ProgramPattern } from "../../electron/helpers/program-pattern";
+import type { EnrollableApp } from "../../electron/helpers/enrollable-apps";
+import type { ProfileImportPreview as ImportPreview } from "../../electron/helpers/profile-manager";
+import type { MatchRule } from "../../electron/helpers/enrolled-programs-manager";
 import { IpcKeys } from "../../electron/utils/constants";
 
 interface EnrolledProgram {
@@ -8,12 +19,28 @@ interface EnrolledProgram {
   path: string;
   enrolledAt: string;
   lastSeen?: string;
+  status?: 'available' | 'missing';
+  matchMode?: 'exact' | 'fuzzy';
+  matchRules?: MatchRule[];
+  pattern?: ProgramPattern;
+  displayName?: string;
+  category?: ProgramOverrides['category'];
+  project?: string;
+  language?: string;
+  entityType?: ProgramOverrides['entityType'];
+  pluginName?: string;
+  icon?: string | null;
 }
 
 export function MonitoredAppsPage() {
   const [enrolledPrograms, setEnrolledPrograms] = useState<EnrolledProgram[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [runningPrograms, setRunningPrograms] = useState<string[]>([]);
+  const [expandedProgramId, setExpandedProgramId] = useState<string | null>(null);
+  const [editingProgramId, setEditingProgramId] = useState<string | null>(null);
+  const [profileImport, setProfileImport] = useState<(ImportPreview & { filePath: string }) | null>(null);
+  const [isAddingPattern, setIsAddingPattern] = useState(false);
+  const [isPickingApp, setIsPickingApp] = useState(false);
 
   const loadEnrolledPrograms = useCallback(() => {
     const programs = window.ipcRenderer?.sendSync(IpcKeys.getEnrolledPrograms) as EnrolledProgram[];
@@ -35,13 +62,27 @@ export function MonitoredAppsPage() {
     return () => clearInterval(interval);
   }, [loadEnrolledPrograms, loadRunningPrograms]);
 
-  const handleAddProgram = async () => {
+  const handleSelectApp = (app: EnrollableApp) => {
+    const result = app.pattern
+      ? window.ipcRenderer?.sendSync(IpcKeys.enrollProgramPattern, app.pattern)
+      : window.ipcRenderer?.sendSync(IpcKeys.enrollProgram, app.path);
+    if (result) {
+      setIsPickingApp(false);
+      loadEnrolledPrograms();
+      loadRunningPrograms();
+    } else {
+      alert('Failed to enroll program. It may already be enrolled.');
+    }
+  };
+
+  const handleBrowseProgram = async () => {
     setIsLoading(true);
     try {
       const filePath = await window.ipcRenderer?.invoke(IpcKeys.showFileDialog);
       if (filePath) {
         const result = window.ipcRenderer?.sendSync(IpcKeys.enrollProgram, filePath);
         if (result) {
+          setIsPickingApp(false);
           loadEnrolledPrograms();
         } else {
           alert('Failed to enroll program. It may already be enrolled or the path is invalid.');
@@ -55,6 +96,53 @@ export function MonitoredAppsPage() {
     }
   };
 
+  const handleAddPattern = (pattern: ProgramPattern) => {
+    const result = window.ipcRenderer?.sendSync(IpcKeys.enrollProgramPattern, pattern);
+    if (result) {
+      setIsAddingPattern(false);
+      loadEnrolledPrograms();
+      loadRunningPrograms();
+    } else {
+      alert('Failed to enroll pattern. It may already be enrolled.');
+    }
+  };
+
+  const handleExportProfile = async () => {
+    const filePath = await window.ipcRenderer?.invoke(IpcKeys.exportProfile);
+    if (filePath === null) {
+      return;
+    }
+    if (!filePath) {
+      alert('Failed to export profile');
+    }
+  };
+
+  const handlePreviewProfileImport = async () => {
+    const result = await window.ipcRenderer?.invoke(IpcKeys.previewProfileImport);
+    if (!result) {
+      return;
+    }
+    if ('error' in result) {
+      alert(`Failed to read profile: ${result.error}`);
+      return;
+    }
+    setProfileImport(result);
+  };
+
+  const handleImportProfile = (includeFilters: boolean) => {
+    if (!profileImport) {
+      return;
+    }
+    const imported = window.ipcRenderer?.sendSync(IpcKeys.importProfile, profileImport.filePath, includeFilters);
+    if (imported === null) {
+      alert('Failed to import profile');
+      return;
+    }
+    setProfileImport(null);
+    loadEnrolledPrograms();
+    loadRunningPrograms();
+  };
+
   const handleRemoveProgram = (programId: string) => {
     const confirmed = confirm('Are you sure you want to remove this program from monitoring?');
     if (confirmed) {
@@ -67,6 +155,55 @@ export function MonitoredAppsPage() {
     }
   };
 
+  const handleRelinkProgram = async (programId: string) => {
+    try {
+      const filePath = await window.ipcRenderer?.invoke(IpcKeys.showFileDialog);
+      if (filePath) {
+        const result = window.ipcRenderer?.sendSync(IpcKeys.relinkEnrolledProgram, programId, filePath);
+        if (result) {
+          loadEnrolledPrograms();
+          loadRunningPrograms();
+        } else {
+          alert('Failed to relink program. The path may be invalid or already enrolled.');
+        }
+      }
+    } catch (error) {
+      console.error('Error relinking program:', error);
+      alert('Failed to relink program');
+    }
+  };
+
+  const handleMatchModeChange = (programId: string, matchMode: EnrolledProgram['matchMode']) => {
+    const result = window.ipcRenderer?.sendSync(IpcKeys.updateEnrolledProgram, programId, { matchMode });
+    if (result) {
+      loadEnrolledPrograms();
+      loadRunningPrograms();
+    } else {
+      alert('Failed to update program');
+    }
+  };
+
+  const handleMatchRulesSave = (programId: string, matchRules: MatchRule[]) => {
+    const result = window.ipcRenderer?.sendSync(IpcKeys.updateEnrolledProgram, programId, { matchRules });
+    if (result) {
+      setExpandedProgramId(null);
+      loadEnrolledPrograms();
+      loadRunningPrograms();
+    } else {
+      alert('Failed to save match rules');
+    }
+  };
+
+  const handleOverridesSave = (programId: string, overrides: ProgramOverrides) => {
+    const result = window.ipcRenderer?.sendSync(IpcKeys.updateEnrolledProgram, programId, overrides);
+    if (result) {
+      setEditingProgramId(null);
+      loadEnrolledPrograms();
+    } else {
+      alert('Failed to save program details');
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString();
   };
@@ -85,15 +222,66 @@ export function MonitoredAppsPage() {
               Manage programs that are monitored
             </p>
           </div>
-          <Button onClick={handleAddProgram} disabled={isLoading} className="cursor-pointer" variant="outline">
-            {isLoading ? 'Adding...' : 'Add Program'}
-          </Button>
+          <div className="flex space-x-2">
+            <Button onClick={handlePreviewProfileImport} className="cursor-pointer" variant="outline">
+              Import
+            </Button>
+            <Button
+              onClick={handleExportProfile}
+              disabled={enrolledPrograms.length === 0}
+              className="cursor-pointer"
+              variant="outline"
+            >
+              Export
+            </Button>
+            <Button onClick={() => setIsAddingPattern(true)} className="cursor-pointer" variant="outline">
+              Add Pattern
+            </Button>
+            <Button onClick={() => setIsPickingApp(true)} disabled={isLoading} className="cursor-pointer" variant="outline">
+              {isLoading ? 'Adding...' : 'Add Program'}
+            </Button>
+          </div>
         </div>
+
+        {isPickingApp && (
+          <div className="mb-6">
+            <AppPicker
+              onSelect={handleSelectApp}
+              onBrowse={handleBrowseProgram}
+              onCancel={() => setIsPickingApp(false)}
+            />
+          </div>
+        )}
+
+        <ProgramSuggestions onEnroll={handleSelectApp} />
+
+        {isAddingPattern && (
+          <div className="mb-6">
+            <ProgramPatternForm
+              onSave={handleAddPattern}
+              onCancel={() => setIsAddingPattern(false)}
+            />
+          </div>
+        )}
+
+        {profileImport && (
+          <div className="mb-6">
+            <ProfileImportPreview
+              preview={profileImport}
+              onImport={handleImportProfile}
+              onCancel={() => setProfileImport(null)}
+            />
+          </div>
+        )}
         
         <div className="bg-muted/50 border rounded-lg p-4 mb-6">
           <h3 className="font-medium text-foreground mb-2">How it works:</h3>
           <ul className="text-sm text-muted-foreground space-y-1">
-            <li>• Enroll any executable program you want to monitor</li>
+            <li>• Enroll an installed or running app, or browse for any executable you want to monitor</li>
+            <li>• Add a pattern for programs whose path changes, like versioned installs, Flatpaks or Snaps</li>
+            <li>• Add match rules for tools run through an interpreter or wrapper script</li>
+            <li>• Use Details to change the name, project, category or language that is reported</li>
+            <li>• Export your programs to a profile to share them with teammates, who can import it</li>
             <li>• The system checks every minute if enrolled programs are running</li>
             <li>• When a program is detected running, usage time is logged to WakaTime</li>
           </ul>
@@ -113,7 +301,7 @@ export function MonitoredAppsPage() {
               Get started by enrolling a program you want to monitor.<br />
               This could be your code editor, terminal, or any development tool.
             </p>
-            <Button onClick={handleAddProgram} disabled={isLoading} className="cursor-pointer" variant="outline">
+            <Button onClick={() => setIsPickingApp(true)} disabled={isLoading} className="cursor-pointer" variant="outline">
               {isLoading ? 'Adding...' : 'Enroll Your First Program'}
             </Button>
           </div>
@@ -124,46 +312,122 @@ export function MonitoredAppsPage() {
             {enrolledPrograms.map((program) => (
               <div
                 key={program.id}
-                className={`flex items-center justify-between p-4 border rounded-lg transition-colors ${
+                className={`p-4 border rounded-lg transition-colors ${
                   isRunning(program.path) 
                     ? 'bg-green-50 border-green-200 dark:bg-green-950/30 dark:border-green-800/50' 
                     : 'bg-card border'
                 }`}
               >
-                <div className="flex items-center space-x-4 flex-1">
-                  <div className={`w-3 h-3 rounded-full ${
-                    isRunning(program.path) ? 'bg-green-500' : 'bg-muted-foreground/30'
-                  }`} title={isRunning(program.path) ? 'Running' : 'Not running'} />
-                  
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center space-x-2">
-                      <h3 className="font-medium text-foreground truncate">{program.name}</h3>
-                      {isRunning(program.path) && (
-                        <span className="px-2 py-1 text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300 rounded">
-                          Running
-                        </span>
-                      )}
-                    </div>
-                    <p className="text-sm text-muted-foreground truncate">{program.path}</p>
-                    <div className="text-xs text-muted-foreground/70 mt-1">
-                      Enrolled: {formatDate(program.enrolledAt)}
-                      {program.lastSeen && (
-                        <span className="ml-4">
-                          Last seen: {formatDate(program.lastSeen)}
-                        </span>
-                      )}
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-4 flex-1">
+                    <div className={`w-3 h-3 rounded-full ${
+                      isRunning(program.path) ? 'bg-green-500' : 'bg-muted-foreground/30'
+                    }`} title={isRunning(program.path) ? 'Running' : 'Not running'} />
+
+                    {program.icon && (
+                      <img src={program.icon} alt="" className="w-8 h-8 shrink-0" />
+                    )}
+                    
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center space-x-2">
+                        <h3 className="font-medium text-foreground truncate">{program.displayName || program.name}</h3>
+                        {isRunning(program.path) && (
+                          <span className="px-2 py-1 text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300 rounded">
+                            Running
+                          </span>
+                        )}
+                        {program.status === 'missing' && (
+                          <span
+                            className="px-2 py-1 text-xs font-medium bg-destructive/10 text-destructive rounded"
+                            title={program.pattern
+                              ? 'Nothing currently matches this pattern.'
+                              : 'The program is no longer at this path. Relink it to keep its settings and history.'}
+                          >
+                            Missing
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-sm text-muted-foreground truncate">{program.path}</p>
+                      <div className="text-xs text-muted-foreground/70 mt-1">
+                        Enrolled: {formatDate(program.enrolledAt)}
+                        {program.lastSeen && (
+                          <span className="ml-4">
+                            Last seen: {formatDate(program.lastSeen)}
+                          </span>
+                        )}
+                      </div>
+                      <label className="flex items-center gap-2 text-xs text-muted-foreground mt-2">
+                        <Checkbox
+                          checked={program.matchMode === 'fuzzy'}
+                          onCheckedChange={(checked) => handleMatchModeChange(program.id, checked === true ? 'fuzzy' : 'exact')}
+                        />
+                        Also match by program name or command line
+                      </label>
                     </div>
                   </div>
+                  
+                  <div className="flex space-x-2">
+                    {program.status === 'missing' && !program.pattern && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRelinkProgram(program.id)}
+                        className="cursor-pointer"
+                      >
+                        Relink
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setEditingProgramId(editingProgramId === program.id ? null : program.id)}
+                      className="cursor-pointer"
+                    >
+                      Details
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setExpandedProgramId(expandedProgramId === program.id ? null : program.id)}
+                      className="cursor-pointer"
+                    >
+                      {program.matchRules?.length ? `Rules (${program.matchRules.length})` : 'Rules'}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRemoveProgram(program.id)}
+                      className="cursor-pointer text-destructive border-destructive/20 hover:bg-destructive/10 hover:text-destructive"
+                    >
+                      Remove
+                    </Button>
+                  </div>
                 </div>
-                
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => handleRemoveProgram(program.id)}
-                  className="cursor-pointer text-destructive border-destructive/20 hover:bg-destructive/10 hover:text-destructive"
-                >
-                  Remove
-                </Button>
+
+                {expandedProgramId === program.id && (
+                  <div className="mt-4 border-t pt-4">
+                    <MatchRulesEditor
+                      rules={program.matchRules ?? []}
+                      onSave={(matchRules) => handleMatchRulesSave(program.id, matchRules)}
+                    />
+                  </div>
+                )}
+
+                {editingProgramId === program.id && (
+                  <div className="mt-4 border-t pt-4">
+                    <ProgramOverridesEditor
+                      overrides={{
+                        displayName: program.displayName,
+                        category: program.category,
+                        project: program.project,
+                        language: program.language,
+                        entityType: program.entityType,
+                        pluginName: program.pluginName,
+                      }}
+                      onSave={(overrides) => handleOverridesSave(program.id, overrides)}
+                    />
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -1,6 +1,7 @@
 import { useCallback, useEffect, useState, useRef } from "react";
 
 import type {
+  ActivitySourceType,
   DomainPreferenceType,
   FilterType,
 } from "../../electron/utils/constants";
@@ -69,6 +70,32 @@ export function SettingsPage() {
   const [allowlist, setAllowlist] = useState(
     () => window.ipcRenderer?.sendSync(IpcKeys.getAllowlist) as string,
   );
+  const [activitySources] = useState(
+    () =>
+      (window.ipcRenderer?.sendSync(IpcKeys.getActivitySources) ?? []) as {
+        id: ActivitySourceType;
+        label: string;
+        description: string;
+        isSupported: boolean;
+      }[],
+  );
+  const [activitySource, setActivitySource] = useState(
+    () =>
+      window.ipcRenderer?.sendSync(
+        IpcKeys.getActivitySource,
+      ) as ActivitySourceType,
+  );
+  const [idleThresholdMinutes] = useState(
+    () =>
+      (window.ipcRenderer?.sendSync(IpcKeys.getIdleThreshold) as number) / 60,
+  );
+  const [resolveFileEntities, setResolveFileEntities] = useState(
+    () =>
+      window.ipcRenderer?.sendSync(IpcKeys.getResolveFileEntities) as boolean,
+  );
+  const [entityExcludeGlobs] = useState(
+    () => window.ipcRenderer?.sendSync(IpcKeys.getEntityExcludeGlobs) as string,
+  );
   const [appVersion] = useState(() => window.ipcRenderer?.getAppVersion());
   const [platform] = useState(() => window.ipcRenderer?.getPlatform());
 
@@ -76,6 +103,18 @@ export function SettingsPage() {
     window.ipcRenderer?.setSetting("settings", "api_key", apiKey);
     setApiKey(apiKey);
   }, 200);
+  const debouncedSetIdleThreshold = useDebounceCallback((value: string) => {
+    const minutes = parseFloat(value);
+    if (minutes > 0) {
+      window.ipcRenderer?.send(IpcKeys.setIdleThreshold, minutes * 60);
+    }
+  }, 200);
+  const debouncedSetEntityExcludeGlobs = useDebounceCallback(
+    (value: string) => {
+      window.ipcRenderer?.send(IpcKeys.setEntityExcludeGlobs, value);
+    },
+    200,
+  );
   const debouncedSetDenylist = useDebounceCallback((value: string) => {
     window.ipcRenderer?.send(IpcKeys.setDenylist, value);
     setDenylist(value);
@@ -115,6 +154,11 @@ export function SettingsPage() {
     setAutoUpdateEnabled(value);
   }, []);
 
+  const handleResolveFileEntitiesChange = useCallback((value: boolean) => {
+    window.ipcRenderer?.send(IpcKeys.setResolveFileEntities, value);
+    setResolveFileEntities(value);
+  }, []);
+
   const handleDomainPreferenceChange = useCallback(
     (value: DomainPreferenceType) => {
       window.ipcRenderer?.send(IpcKeys.setDomainPreference, value);
@@ -122,6 +166,13 @@ export function SettingsPage() {
     },
     [],
   );
+  const handleActivitySourceChange = useCallback(
+    (value: ActivitySourceType) => {
+      window.ipcRenderer?.send(IpcKeys.setActivitySource, value);
+      setActivitySource(value);
+    },
+    [],
+  );
   const handleFilterTypeChange = useCallback((value: FilterType) => {
     window.ipcRenderer?.send(IpcKeys.setFilterType, value);
     setFilterType(value);
@@ -217,6 +268,85 @@ export function SettingsPage() {
           </Label>
         </fieldset>
       </div>
+      <div>
+        <fieldset className="space-y-1">
+          <Label>Activity Tracking:</Label>
+          <Tabs value={activitySource}>
+            <TabsList>
+              {activitySources.map((source) => (
+                <TabsTrigger
+                  key={source.id}
+                  value={source.id}
+                  disabled={!source.isSupported}
+                  onClick={() => handleActivitySourceChange(source.id)}
+                >
+                  {source.label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          <p className="text-sm text-muted-foreground">
+            {
+              activitySources.find((source) => source.id === activitySource)
+                ?.description
+            }
+          </p>
+        </fieldset>
+      </div>
+      <div>
+        <fieldset className="flex flex-col gap-2">
+          <Label htmlFor="idle-threshold">
+            Stop tracking after idle for (minutes):
+          </Label>
+          <Input
+            id="idle-threshold"
+            type="number"
+            min={1}
+            defaultValue={idleThresholdMinutes}
+            onChange={(e) => {
+              debouncedSetIdleThreshold(e.target.value);
+            }}
+          />
+          <p className="text-sm text-muted-foreground">
+            Heartbeats are also paused while the screen is locked or the
+            computer is asleep.
+          </p>
+        </fieldset>
+      </div>
+      {platform === "linux" && (
+        <div className="space-y-2">
+          <fieldset className="flex gap-2">
+            <Checkbox
+              id="resolve-file-entities"
+              className="mt-1"
+              checked={resolveFileEntities}
+              onCheckedChange={(checked) => {
+                handleResolveFileEntitiesChange(checked === true);
+              }}
+            />
+            <Label htmlFor="resolve-file-entities" className="my-0.5 leading-5">
+              Report the file being edited instead of the program
+            </Label>
+          </fieldset>
+          {resolveFileEntities && (
+            <fieldset className="space-y-1">
+              <Label>Ignored files</Label>
+              <Textarea
+                defaultValue={entityExcludeGlobs}
+                onChange={(e) =>
+                  debouncedSetEntityExcludeGlobs(e.currentTarget.value)
+                }
+                className="resize-none"
+                rows={6}
+              />
+              <p className="text-sm text-muted-foreground">
+                Open files matching these are never reported, such as caches
+                and lock files. One glob per line.
+              </p>
+            </fieldset>
+          )}
+        </div>
+      )}
       {isBrowserMonitored && (
         <div className="space-y-6">
           <p>